@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { Chat } from '../app/models/chat';
+import { ChatSettings, isChatHidden, isChatMuted, organizeChats } from '../app/services/chatSettings';
+
+// The helpers under test don't touch Firebase
+jest.mock('../app/firebase', () => ({ auth: { currentUser: null }, firestore: {}, storage: {} }));
+jest.mock('../app/contexts/AuthContext', () => ({ useAuthContext: () => ({ user: null }) }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const now = 1700000000000;
+const minutes = (count: number) => count * 60 * 1000;
+
+// A chat last updated the given number of minutes ago
+const chatUpdated = (id: string, minutesAgo: number, lastMessageMinutesAgo?: number): Chat => ({
+  id,
+  participants: ['alice', 'bob'],
+  participantNames: { alice: 'Alice', bob: 'Bob' },
+  createdAt: new Date(now - minutes(60)),
+  updatedAt: new Date(now - minutes(minutesAgo)),
+  ...(lastMessageMinutesAgo !== undefined && {
+    lastMessage: { text: 'Hi', senderId: 'bob', createdAt: new Date(now - minutes(lastMessageMinutesAgo)) },
+  }),
+});
+
+describe('isChatMuted', () => {
+  it('is off without settings or when unmuted', () => {
+    expect(isChatMuted(undefined, now)).toBe(false);
+    expect(isChatMuted({ muted: false, mutedUntil: new Date(now + minutes(5)) }, now)).toBe(false);
+  });
+
+  it('lasts until unmuted without an end', () => {
+    expect(isChatMuted({ muted: true }, now)).toBe(true);
+    expect(isChatMuted({ muted: true, mutedUntil: null }, now)).toBe(true);
+  });
+
+  it('ends when a timed mute expires', () => {
+    const settings: ChatSettings = { muted: true, mutedUntil: new Date(now + minutes(5)) };
+    expect(isChatMuted(settings, now)).toBe(true);
+    expect(isChatMuted(settings, now + minutes(5) - 1)).toBe(true);
+    expect(isChatMuted(settings, now + minutes(5))).toBe(false);
+    expect(isChatMuted(settings, now + minutes(60))).toBe(false);
+  });
+});
+
+describe('isChatHidden', () => {
+  const hiddenAt = new Date(now - minutes(10));
+
+  it('hides a chat with no messages since it was hidden', () => {
+    expect(isChatHidden(chatUpdated('chat1', 20, 20), { hiddenAt })).toBe(true);
+    expect(isChatHidden(chatUpdated('chat1', 20), { hiddenAt })).toBe(true);
+  });
+
+  it('brings a chat back when a newer message arrives', () => {
+    expect(isChatHidden(chatUpdated('chat1', 5, 5), { hiddenAt })).toBe(false);
+  });
+
+  it('leaves chats that were never hidden', () => {
+    expect(isChatHidden(chatUpdated('chat1', 20, 20), {})).toBe(false);
+    expect(isChatHidden(chatUpdated('chat1', 20, 20))).toBe(false);
+  });
+});
+
+describe('organizeChats', () => {
+  const chats = [
+    chatUpdated('recent', 1),
+    chatUpdated('older', 30),
+    chatUpdated('oldest', 50),
+    chatUpdated('archived', 2),
+    chatUpdated('hidden', 40, 40),
+  ];
+
+  it('keeps the most recent chats first', () => {
+    const { active, archived } = organizeChats(chats.slice(0, 3), {});
+    expect(active.map(chat => chat.id)).toEqual(['recent', 'older', 'oldest']);
+    expect(archived).toEqual([]);
+  });
+
+  it('puts pinned chats first, most recently pinned first', () => {
+    const { active } = organizeChats(chats.slice(0, 3), {
+      oldest: { pinned: true, pinnedAt: new Date(now - minutes(5)) },
+      older: { pinned: true, pinnedAt: new Date(now - minutes(1)) },
+    });
+    expect(active.map(chat => chat.id)).toEqual(['older', 'oldest', 'recent']);
+  });
+
+  it('keeps pinned chats stored without a pin time above unpinned ones', () => {
+    const { active } = organizeChats(chats.slice(0, 3), {
+      oldest: { pinned: true, pinnedAt: null },
+      older: { pinned: true, pinnedAt: new Date(now - minutes(1)) },
+    });
+    expect(active.map(chat => chat.id)).toEqual(['older', 'oldest', 'recent']);
+  });
+
+  it('ignores the pin time of unpinned chats', () => {
+    const { active } = organizeChats(chats.slice(0, 3), {
+      oldest: { pinned: false, pinnedAt: new Date(now - minutes(1)) },
+    });
+    expect(active.map(chat => chat.id)).toEqual(['recent', 'older', 'oldest']);
+  });
+
+  it('moves archived chats out of the main list and leaves hidden ones out', () => {
+    const { active, archived } = organizeChats(chats, {
+      archived: { archived: true },
+      hidden: { hiddenAt: new Date(now - minutes(10)) },
+    });
+    expect(active.map(chat => chat.id)).toEqual(['recent', 'older', 'oldest']);
+    expect(archived.map(chat => chat.id)).toEqual(['archived']);
+  });
+});
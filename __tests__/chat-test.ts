@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+import { FieldPath, arrayRemove, arrayUnion, updateDoc } from 'firebase/firestore';
+import { Message } from '../app/models/message';
+import {
+  KEYWORD_MIN_PREFIX,
+  MESSAGE_EDIT_WINDOW_MS,
+  canModifyMessage,
+  getReactionSummary,
+  getSearchKeywords,
+  tokenizeSearchText,
+  toggleReaction,
+} from '../app/services/chat';
+
+// The services under test only need the signed-in user; writes are recorded.
+// Mocks are set up before this file's variables, so they read mockAuth lazily.
+const mockAuth = { currentUser: { uid: 'alice' } as { uid: string } | null };
+jest.mock('../app/firebase', () => ({
+  get auth() {
+    return mockAuth;
+  },
+  firestore: {},
+  storage: {},
+}));
+jest.mock('../app/contexts/AuthContext', () => ({ useAuthContext: () => ({ user: mockAuth.currentUser }) }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../app/models/collections', () => ({
+  messageDocRef: (messageId: string) => ({ path: `messages/${messageId}` }),
+}));
+jest.mock('firebase/firestore', () => ({
+  ...jest.requireActual('firebase/firestore'),
+  updateDoc: jest.fn(),
+}));
+
+const now = 1700000000000;
+
+// A message sent by alice at the given time
+const messageAt = (createdAt: number, overrides: Partial<Message> = {}): Message => ({
+  id: 'message1',
+  text: 'Hello',
+  createdAt: new Date(createdAt),
+  senderId: 'alice',
+  senderName: 'Alice',
+  chatId: 'chat1',
+  ...overrides,
+});
+
+describe('canModifyMessage', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets the sender change a message within the edit window', () => {
+    expect(canModifyMessage(messageAt(now), 'alice')).toBe(true);
+    expect(canModifyMessage(messageAt(now - MESSAGE_EDIT_WINDOW_MS + 1), 'alice')).toBe(true);
+  });
+
+  it('closes when the edit window ends', () => {
+    expect(canModifyMessage(messageAt(now - MESSAGE_EDIT_WINDOW_MS), 'alice')).toBe(false);
+    expect(canModifyMessage(messageAt(now - 2 * MESSAGE_EDIT_WINDOW_MS), 'alice')).toBe(false);
+  });
+
+  it('only lets the sender change a message', () => {
+    expect(canModifyMessage(messageAt(now), 'bob')).toBe(false);
+    expect(canModifyMessage(messageAt(now))).toBe(false);
+  });
+
+  it('rejects deleted and unsent messages', () => {
+    expect(canModifyMessage(messageAt(now, { deleted: true }), 'alice')).toBe(false);
+    expect(canModifyMessage(messageAt(now, { id: undefined }), 'alice')).toBe(false);
+  });
+});
+
+describe('reactions', () => {
+  const reactions = { '👍': ['alice', 'bob'], '❤️': ['bob'], '😂': [], '🙏': ['carol', 'dave', 'erin'] };
+
+  beforeEach(() => {
+    mockAuth.currentUser = { uid: 'alice' };
+    jest.mocked(updateDoc).mockReset().mockResolvedValue(undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('summarizes reactions, most popular first', () => {
+    expect(getReactionSummary(messageAt(now, { reactions }), 'alice')).toEqual([
+      { emoji: '🙏', count: 3, userIds: ['carol', 'dave', 'erin'], reactedByMe: false },
+      { emoji: '👍', count: 2, userIds: ['alice', 'bob'], reactedByMe: true },
+      { emoji: '❤️', count: 1, userIds: ['bob'], reactedByMe: false },
+    ]);
+  });
+
+  it('orders equally popular reactions as the picker does', () => {
+    const summary = getReactionSummary(messageAt(now, { reactions: { '🙏': ['bob'], '👍': ['bob'] } }));
+    expect(summary.map(reaction => reaction.emoji)).toEqual(['👍', '🙏']);
+  });
+
+  it("adds the user's reaction", async () => {
+    await toggleReaction(messageAt(now, { reactions }), '❤️');
+
+    const [ref, field, value] = jest.mocked(updateDoc).mock.calls[0] as unknown as [unknown, FieldPath, unknown];
+    expect(ref).toEqual({ path: 'messages/message1' });
+    expect(field.isEqual(new FieldPath('reactions', '❤️'))).toBe(true);
+    expect(value).toEqual(arrayUnion('alice'));
+  });
+
+  it("removes the user's earlier reaction", async () => {
+    await toggleReaction(messageAt(now, { reactions }), '👍');
+
+    const [, field, value] = jest.mocked(updateDoc).mock.calls[0] as unknown as [unknown, FieldPath, unknown];
+    expect(field.isEqual(new FieldPath('reactions', '👍'))).toBe(true);
+    expect(value).toEqual(arrayRemove('alice'));
+  });
+
+  it('rejects unsupported emoji, deleted messages and signed-out users', async () => {
+    await expect(toggleReaction(messageAt(now), '🦄')).rejects.toThrow('Unsupported reaction');
+    await expect(toggleReaction(messageAt(now, { deleted: true }), '👍')).rejects.toThrow('Cannot react');
+
+    mockAuth.currentUser = null;
+    await expect(toggleReaction(messageAt(now), '👍')).rejects.toThrow('No user is signed in');
+    expect(updateDoc).not.toHaveBeenCalled();
+  });
+});
+
+describe('tokenizeSearchText', () => {
+  it('splits lowercase words on whitespace and punctuation', () => {
+    expect(tokenizeSearchText('Hello, World!  See you @ 5pm...')).toEqual(['hello', 'world', 'see', 'you', '5pm']);
+    expect(tokenizeSearchText('re-run the e-mail/chat: "now"')).toEqual(['re', 'run', 'the', 'e', 'mail', 'chat', 'now']);
+  });
+
+  it('keeps words with apostrophes whole', () => {
+    expect(tokenizeSearchText("Don't stop, it’s fine")).toEqual(['dont', 'stop', 'its', 'fine']);
+  });
+
+  it('splits on typographic quotes and ellipses', () => {
+    expect(tokenizeSearchText('“quoted”…next')).toEqual(['quoted', 'next']);
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(tokenizeSearchText('Café naïve Straße')).toEqual(['café', 'naïve', 'straße']);
+  });
+
+  it('finds nothing in blank text', () => {
+    expect(tokenizeSearchText('  ?! ')).toEqual([]);
+  });
+});
+
+describe('getSearchKeywords', () => {
+  it('indexes each word and its prefixes from the shortest searchable one', () => {
+    expect(KEYWORD_MIN_PREFIX).toBe(3);
+    expect(getSearchKeywords('Hello hi')).toEqual(['hello', 'hi', 'hel', 'hell']);
+  });
+
+  it('indexes repeated words once', () => {
+    expect(getSearchKeywords('pizza Pizza PIZZA!')).toEqual(['pizza', 'piz', 'pizz']);
+  });
+
+  it('keeps every word before any prefix once the cap is reached', () => {
+    // 150 words with two prefixes each that no other word shares
+    const letters = 'abcdefghijklmnopqrstuvwxyz';
+    const words = Array.from({ length: 150 }, (_, i) => `${letters[Math.floor(i / 26)]}${letters[i % 26]}qxy`);
+    const keywords = getSearchKeywords(words.join(' '));
+
+    expect(keywords).toHaveLength(200);
+    expect(keywords.slice(0, 150)).toEqual(words);
+    expect(keywords.slice(150, 152)).toEqual(['aaq', 'aaqx']);
+  });
+
+  it('drops words beyond the cap', () => {
+    const words = Array.from({ length: 250 }, (_, i) => `w${i}`);
+    expect(getSearchKeywords(words.join(' '))).toEqual(words.slice(0, 200));
+  });
+});
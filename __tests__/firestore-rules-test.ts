@@ -0,0 +1,463 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  FieldPath,
+  Firestore,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  WriteBatch,
+} from 'firebase/firestore';
+
+// These tests run against the Firestore emulator: `npm run test:rules` starts it
+// and sets FIRESTORE_EMULATOR_HOST. Without an emulator they are skipped.
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const ALICE = 'alice';
+const BOB = 'bob';
+const CAROL = 'carol';
+const MALLORY = 'mallory';
+
+describeWithEmulator('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  // A Firestore client signed in as the given user, or signed out
+  const dbFor = (uid?: string) => {
+    const context = uid ? testEnv.authenticatedContext(uid) : testEnv.unauthenticatedContext();
+    return context.firestore() as unknown as Firestore;
+  };
+
+  // Write documents with the rules turned off
+  const seed = (data: Record<string, Record<string, any>>) => testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    await Promise.all(Object.entries(data).map(([path, value]) => setDoc(doc(db, path), value)));
+  });
+
+  const now = () => Timestamp.now();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-veryfomo',
+      firestore: { rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seed({
+      [`users/${ALICE}`]: { uid: ALICE, displayName: 'Alice', createdAt: now(), lastActive: now() },
+      [`users/${BOB}`]: { uid: BOB, displayName: 'Bob', createdAt: now(), lastActive: now() },
+      [`users/${CAROL}`]: { uid: CAROL, displayName: 'Carol', createdAt: now(), lastActive: now() },
+      [`contacts/${ALICE}`]: { [BOB]: { addedAt: now() } },
+      [`contacts/${BOB}`]: { [ALICE]: { addedAt: now() } },
+      'chats/direct': {
+        participants: [ALICE, BOB],
+        participantNames: { [ALICE]: 'Alice', [BOB]: 'Bob' },
+        createdAt: now(),
+        updatedAt: now(),
+      },
+      'chats/group': {
+        participants: [ALICE, BOB, CAROL],
+        participantNames: { [ALICE]: 'Alice', [BOB]: 'Bob', [CAROL]: 'Carol' },
+        isGroup: true,
+        name: 'Friends',
+        photoURL: null,
+        admins: [ALICE],
+        createdBy: ALICE,
+        createdAt: now(),
+        updatedAt: now(),
+      },
+      'messages/hello': {
+        text: 'Hello',
+        createdAt: now(),
+        senderId: ALICE,
+        senderName: 'Alice',
+        chatId: 'direct',
+        keywords: ['hel', 'hell', 'hello'],
+      },
+    });
+  });
+
+  describe('users', () => {
+    it('lets a user create their own profile', async () => {
+      await assertSucceeds(setDoc(doc(dbFor(MALLORY), 'users', MALLORY), {
+        uid: MALLORY,
+        displayName: 'User-mallo',
+        email: null,
+        photoURL: null,
+        isAnonymous: true,
+        schemaVersion: 1,
+        createdAt: serverTimestamp(),
+        lastActive: serverTimestamp(),
+        lastLogin: serverTimestamp(),
+      }));
+    });
+
+    it('rejects creating someone else\'s profile', async () => {
+      await assertFails(setDoc(doc(dbFor(MALLORY), 'users', CAROL), {
+        uid: CAROL,
+        displayName: 'Carol',
+        createdAt: serverTimestamp(),
+      }));
+    });
+
+    it('rejects unknown fields and invalid values', async () => {
+      const db = dbFor(ALICE);
+      await assertFails(setDoc(doc(db, 'users', ALICE), { isAdmin: true }, { merge: true }));
+      await assertFails(setDoc(doc(db, 'users', ALICE), { displayName: '' }, { merge: true }));
+      await assertFails(setDoc(doc(db, 'users', ALICE), { displayName: 42 }, { merge: true }));
+      await assertFails(setDoc(doc(db, 'users', ALICE), { presence: 'invisible' }, { merge: true }));
+      await assertFails(setDoc(doc(db, 'users', ALICE), { uid: BOB }, { merge: true }));
+      await assertFails(setDoc(doc(db, 'users', ALICE), { schemaVersion: '1' }, { merge: true }));
+    });
+
+    it('requires server timestamps', async () => {
+      const db = dbFor(ALICE);
+      await assertFails(setDoc(doc(db, 'users', ALICE), { lastActive: Timestamp.fromMillis(0) }, { merge: true }));
+      await assertSucceeds(setDoc(doc(db, 'users', ALICE), {
+        presence: 'online',
+        lastActive: serverTimestamp(),
+      }, { merge: true }));
+    });
+
+    it('rejects updating someone else\'s profile', async () => {
+      await assertFails(setDoc(doc(dbFor(BOB), 'users', ALICE), { displayName: 'Bob was here' }, { merge: true }));
+    });
+
+    it('shows profiles to their owner and contacts only', async () => {
+      await assertSucceeds(getDoc(doc(dbFor(ALICE), 'users', ALICE)));
+      await assertSucceeds(getDoc(doc(dbFor(BOB), 'users', ALICE)));
+      await assertFails(getDoc(doc(dbFor(CAROL), 'users', ALICE)));
+      await assertFails(getDoc(doc(dbFor(), 'users', ALICE)));
+    });
+
+    it('doesn\'t let users be listed', async () => {
+      await assertFails(getDocs(collection(dbFor(ALICE), 'users')));
+    });
+  });
+
+  describe('chats', () => {
+    // A 1:1 chat as written by createChat
+    const newChat = (participants: string[]) => ({
+      participants,
+      participantNames: Object.fromEntries(participants.map(uid => [uid, uid])),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      schemaVersion: 1,
+    });
+
+    it('lets a user create a 1:1 chat with its welcome message', async () => {
+      const db = dbFor(CAROL);
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'chats', 'new'), newChat([BOB, CAROL]));
+      batch.set(doc(db, 'messages', 'welcome'), {
+        text: 'Chat created. Say hello!',
+        createdAt: serverTimestamp(),
+        senderId: 'system',
+        senderName: 'System',
+        chatId: 'new',
+        schemaVersion: 1,
+      });
+      await assertSucceeds(batch.commit());
+    });
+
+    it('rejects chats the creator isn\'t part of', async () => {
+      await assertFails(setDoc(doc(dbFor(MALLORY), 'chats', 'new'), newChat([ALICE, BOB])));
+    });
+
+    it('rejects malformed chats', async () => {
+      const db = dbFor(CAROL);
+      await assertFails(setDoc(doc(db, 'chats', 'new'), { ...newChat([BOB, CAROL]), hacked: true }));
+      await assertFails(setDoc(doc(db, 'chats', 'new'), newChat([ALICE, BOB, CAROL])));
+      await assertFails(setDoc(doc(db, 'chats', 'new'), newChat([CAROL])));
+      await assertFails(setDoc(doc(db, 'chats', 'new'), { ...newChat([BOB, CAROL]), createdAt: Timestamp.now() }));
+      await assertFails(setDoc(doc(db, 'chats', 'new'), { ...newChat([BOB, CAROL]), schemaVersion: '1' }));
+      await assertFails(setDoc(doc(db, 'chats', 'new'), {
+        ...newChat([BOB, CAROL]),
+        participantNames: { [BOB]: 'Bob', [ALICE]: 'Alice' },
+      }));
+    });
+
+    it('lets a user create a group they are the only admin of', async () => {
+      const group = {
+        ...newChat([ALICE, BOB, CAROL]),
+        isGroup: true,
+        name: 'Weekend',
+        photoURL: null,
+        createdBy: CAROL,
+      };
+      const db = dbFor(CAROL);
+      await assertFails(setDoc(doc(db, 'chats', 'new'), { ...group, admins: [ALICE] }));
+      await assertFails(setDoc(doc(db, 'chats', 'new'), { ...group, admins: [CAROL], name: '' }));
+      await assertSucceeds(setDoc(doc(db, 'chats', 'new'), { ...group, admins: [CAROL] }));
+    });
+
+    it('doesn\'t let a blocked user start a 1:1 chat', async () => {
+      await seed({ [`blockedUsers/${BOB}`]: { [CAROL]: now() } });
+      await assertFails(setDoc(doc(dbFor(CAROL), 'chats', 'new'), newChat([BOB, CAROL])));
+    });
+
+    it('shows chats to their participants only', async () => {
+      await assertSucceeds(getDoc(doc(dbFor(BOB), 'chats', 'direct')));
+      await assertFails(getDoc(doc(dbFor(CAROL), 'chats', 'direct')));
+      await assertSucceeds(getDocs(query(collection(dbFor(BOB), 'chats'), where('participants', 'array-contains', BOB))));
+      await assertFails(getDocs(query(collection(dbFor(CAROL), 'chats'), where('participants', 'array-contains', BOB))));
+    });
+
+    it('lets participants mark a chat as read for themselves only', async () => {
+      const db = dbFor(BOB);
+      await assertSucceeds(updateDoc(doc(db, 'chats', 'direct'), {
+        [`lastReadAt.${BOB}`]: serverTimestamp(),
+        [`unreadCounts.${BOB}`]: 0,
+      }));
+      await assertFails(updateDoc(doc(db, 'chats', 'direct'), { [`lastReadAt.${ALICE}`]: serverTimestamp() }));
+      await assertFails(updateDoc(doc(db, 'chats', 'direct'), { [`unreadCounts.${BOB}`]: 5 }));
+    });
+
+    it('doesn\'t let anyone delete a chat', async () => {
+      await assertFails(deleteDoc(doc(dbFor(BOB), 'chats', 'direct')));
+      await assertFails(deleteDoc(doc(dbFor(ALICE), 'chats', 'group')));
+    });
+
+    it('only accepts system messages alongside a change to the chat', async () => {
+      const systemMessage = (db: Firestore, batch: WriteBatch, text: string) => {
+        batch.set(doc(db, 'messages', 'system'), {
+          text,
+          createdAt: serverTimestamp(),
+          senderId: 'system',
+          senderName: 'System',
+          chatId: 'group',
+          schemaVersion: 1,
+        });
+      };
+
+      const bobDb = dbFor(BOB);
+      const fake = writeBatch(bobDb);
+      systemMessage(bobDb, fake, 'Carol is now an admin');
+      fake.update(doc(bobDb, 'chats', 'group'), { updatedAt: serverTimestamp() });
+      await assertFails(fake.commit());
+
+      const aliceDb = dbFor(ALICE);
+      const real = writeBatch(aliceDb);
+      systemMessage(aliceDb, real, 'Carol is now an admin');
+      real.update(doc(aliceDb, 'chats', 'group'), { admins: arrayUnion(CAROL), updatedAt: serverTimestamp() });
+      await assertSucceeds(real.commit());
+    });
+
+    it('rejects arbitrary fields and changes from non-participants', async () => {
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'direct'), { hacked: true }));
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'direct'), { createdAt: serverTimestamp() }));
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'direct'), { participants: [ALICE, BOB, CAROL] }));
+      await assertFails(updateDoc(doc(dbFor(CAROL), 'chats', 'direct'), { updatedAt: serverTimestamp() }));
+    });
+
+    it('lets only admins change a group', async () => {
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'group'), { name: 'Renamed', updatedAt: serverTimestamp() }));
+      await assertSucceeds(updateDoc(doc(dbFor(ALICE), 'chats', 'group'), { name: 'Renamed', updatedAt: serverTimestamp() }));
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'group'), { admins: arrayUnion(BOB) }));
+      await assertSucceeds(updateDoc(doc(dbFor(ALICE), 'chats', 'group'), { admins: arrayUnion(BOB) }));
+    });
+
+    it('lets a member leave a group', async () => {
+      await assertSucceeds(updateDoc(doc(dbFor(CAROL), 'chats', 'group'), {
+        participants: [ALICE, BOB],
+        admins: [ALICE],
+        [`participantNames.${CAROL}`]: deleteField(),
+        updatedAt: serverTimestamp(),
+      }));
+    });
+
+    it('doesn\'t let a member remove someone else', async () => {
+      await assertFails(updateDoc(doc(dbFor(CAROL), 'chats', 'group'), {
+        participants: [ALICE, CAROL],
+        [`participantNames.${BOB}`]: deleteField(),
+        updatedAt: serverTimestamp(),
+      }));
+    });
+  });
+
+  describe('messages', () => {
+    // A message and its chat preview as written by sendMessage
+    const send = (uid: string, message: Record<string, any>, chatId = 'direct', chatUpdates: Record<string, any> = {}) => {
+      const db = dbFor(uid);
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'messages', 'sent'), {
+        text: 'Hi there',
+        createdAt: serverTimestamp(),
+        senderId: uid,
+        senderName: uid,
+        chatId,
+        keywords: ['hi', 'the', 'ther', 'there'],
+        schemaVersion: 1,
+        ...message,
+      });
+      batch.update(doc(db, 'chats', chatId), {
+        lastMessage: { text: 'Hi there', createdAt: serverTimestamp(), senderId: uid, messageId: 'sent' },
+        updatedAt: serverTimestamp(),
+        [`lastReadAt.${uid}`]: serverTimestamp(),
+        [`unreadCounts.${uid}`]: 0,
+        ...chatUpdates,
+      });
+      return batch.commit();
+    };
+
+    // An image uploaded for the message sent above
+    const attachment = (overrides: Record<string, any> = {}) => ({
+      kind: 'image',
+      url: 'http://127.0.0.1:9199/v0/b/demo-veryfomo.appspot.com/o/chat_attachments%2Fdirect%2Fsent%2Fcat.jpg?alt=media',
+      storagePath: 'chat_attachments/direct/sent/cat.jpg',
+      name: 'cat.jpg',
+      mimeType: 'image/jpeg',
+      size: 1024,
+      width: 640,
+      height: 480,
+      ...overrides,
+    });
+
+    it('lets participants send messages', async () => {
+      await assertSucceeds(send(BOB, {}));
+    });
+
+    it('rejects messages from non-participants', async () => {
+      await assertFails(send(CAROL, {}));
+    });
+
+    it('rejects spoofed senders and malformed messages', async () => {
+      await assertFails(send(BOB, { senderId: ALICE }));
+      await assertFails(send(BOB, { hacked: true }));
+      await assertFails(send(BOB, { text: '' }));
+      await assertFails(send(BOB, { text: 'x'.repeat(10001) }));
+      await assertFails(send(BOB, { createdAt: Timestamp.now() }));
+      await assertFails(send(BOB, { schemaVersion: '1' }));
+      await assertFails(send(BOB, { replyTo: { messageId: 'hello', injected: true } }));
+    });
+
+    it('validates attachments, quotes, sender names and keywords', async () => {
+      await assertSucceeds(send(BOB, { attachments: [attachment()] }));
+      await assertFails(send(BOB, { attachments: [attachment({ url: 'https://evil.example/cat.jpg' })] }));
+      await assertFails(send(BOB, { attachments: [attachment({ storagePath: 'chat_attachments/other/sent/cat.jpg' })] }));
+      await assertFails(send(BOB, { attachments: [attachment(), attachment({ tracking: true })] }));
+      await assertFails(send(BOB, { attachments: [attachment({ size: '1024' })] }));
+      await assertFails(send(BOB, {
+        replyTo: { messageId: 'hello', text: 'x'.repeat(202), senderId: ALICE, senderName: 'Alice' },
+      }));
+      await assertFails(send(BOB, { replyTo: { messageId: 'hello', text: 'Hello', senderId: 42, senderName: 'Alice' } }));
+      await assertFails(send(BOB, { senderName: 'x'.repeat(101) }));
+      await assertFails(send(BOB, { keywords: ['hi', 42] }));
+    });
+
+    it('only lets others\' unread counts go up by one, alongside a new message', async () => {
+      await assertSucceeds(send(BOB, {}, 'direct', { [`unreadCounts.${ALICE}`]: increment(1) }));
+      await assertFails(send(BOB, {}, 'direct', { [`unreadCounts.${ALICE}`]: 5 }));
+      await assertFails(send(BOB, {}, 'direct', { [`unreadCounts.${ALICE}`]: -1 }));
+      await assertFails(send(BOB, {}, 'direct', { [`unreadCounts.${ALICE}`]: 'many' }));
+      await assertFails(send(BOB, {}, 'direct', { [`unreadCounts.${CAROL}`]: 1 }));
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'direct'), { [`unreadCounts.${ALICE}`]: increment(1) }));
+    });
+
+    it('only accepts a last message preview written with its message', async () => {
+      await assertFails(updateDoc(doc(dbFor(ALICE), 'chats', 'direct'), {
+        lastMessage: { text: 'Hello', createdAt: serverTimestamp(), senderId: ALICE, messageId: 'hello' },
+        updatedAt: serverTimestamp(),
+      }));
+      await assertFails(updateDoc(doc(dbFor(BOB), 'chats', 'direct'), {
+        lastMessage: { text: 'Fake', createdAt: serverTimestamp(), senderId: BOB, messageId: 'missing' },
+        updatedAt: serverTimestamp(),
+      }));
+      await assertFails(send(BOB, {}, 'direct', {
+        lastMessage: { text: 'Something else', createdAt: serverTimestamp(), senderId: BOB, messageId: 'sent' },
+      }));
+    });
+
+    it('doesn\'t let a blocked user message the blocker', async () => {
+      await seed({ [`blockedUsers/${ALICE}`]: { [BOB]: now() } });
+      await assertFails(send(BOB, {}));
+    });
+
+    it('shows messages to the chat\'s participants only', async () => {
+      await assertSucceeds(getDoc(doc(dbFor(BOB), 'messages', 'hello')));
+      await assertFails(getDoc(doc(dbFor(CAROL), 'messages', 'hello')));
+    });
+
+    it('lets only the sender edit a message', async () => {
+      const edit = { text: 'Hello!', keywords: ['hel', 'hell', 'hello'], editedAt: serverTimestamp() };
+      await assertFails(updateDoc(doc(dbFor(BOB), 'messages', 'hello'), edit));
+      await assertSucceeds(updateDoc(doc(dbFor(ALICE), 'messages', 'hello'), edit));
+    });
+
+    it('only accepts edit history alongside an edit or delete of the message', async () => {
+      const db = dbFor(ALICE);
+      const history = doc(db, 'messages', 'hello', 'history', 'edit');
+      const previous = { text: 'Hello', editedAt: serverTimestamp() };
+      await assertFails(setDoc(history, previous));
+
+      const edit = writeBatch(db);
+      edit.set(history, previous);
+      edit.update(doc(db, 'messages', 'hello'), {
+        text: 'Hello!',
+        keywords: ['hel', 'hell', 'hello'],
+        editedAt: serverTimestamp(),
+      });
+      await assertSucceeds(edit.commit());
+
+      await assertFails(deleteDoc(history));
+      const remove = writeBatch(db);
+      remove.delete(history);
+      remove.update(doc(db, 'messages', 'hello'), {
+        text: '',
+        keywords: deleteField(),
+        editedAt: deleteField(),
+        deleted: true,
+        deletedAt: serverTimestamp(),
+      });
+      await assertSucceeds(remove.commit());
+    });
+
+    it('lets only the sender delete a message, stamped with the server time', async () => {
+      const tombstone = {
+        text: '',
+        keywords: deleteField(),
+        deleted: true,
+        deletedAt: serverTimestamp(),
+      };
+      await assertFails(updateDoc(doc(dbFor(BOB), 'messages', 'hello'), tombstone));
+      await assertFails(updateDoc(doc(dbFor(ALICE), 'messages', 'hello'), {
+        ...tombstone,
+        deletedAt: Timestamp.fromMillis(0),
+      }));
+      await assertSucceeds(updateDoc(doc(dbFor(ALICE), 'messages', 'hello'), tombstone));
+    });
+
+    it('lets participants react for themselves only', async () => {
+      const thumbsUp = new FieldPath('reactions', '👍');
+      await assertSucceeds(updateDoc(doc(dbFor(BOB), 'messages', 'hello'), thumbsUp, arrayUnion(BOB)));
+      await assertFails(updateDoc(doc(dbFor(BOB), 'messages', 'hello'), thumbsUp, arrayUnion(ALICE)));
+      await assertFails(updateDoc(doc(dbFor(CAROL), 'messages', 'hello'), thumbsUp, arrayUnion(CAROL)));
+    });
+  });
+});
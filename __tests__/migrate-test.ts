@@ -0,0 +1,228 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { deleteApp, initializeApp, App } from 'firebase-admin/app';
+import { FieldValue, Firestore, getFirestore } from 'firebase-admin/firestore';
+import { dryRunMigration, getUpdates, loadMigrations, parseArgs, runMigration } from '../scripts/migrate';
+import schemaVersions from '../app/models/schemaVersions.json';
+
+// A users migration to version 1 and one to version 2 that renames a field
+const usersV1 = {
+  id: '001-users-v1',
+  collection: 'users',
+  version: 1,
+  description: 'Store isAnonymous',
+  migrate: (data: Record<string, unknown>) => ({ isAnonymous: !data.email }),
+};
+const usersV2 = {
+  id: '002-users-v2',
+  collection: 'users',
+  version: 2,
+  description: 'Rename name to displayName',
+  migrate: (data: Record<string, unknown>, { FieldValue: fieldValue }: { FieldValue: typeof FieldValue }) => ({
+    displayName: data.name,
+    name: fieldValue.delete(),
+  }),
+};
+
+describe('parseArgs', () => {
+  it('lists migrations by default', () => {
+    expect(parseArgs([])).toEqual({ command: 'status', dryRun: false, batchSize: 200, only: null });
+  });
+
+  it('reads run options', () => {
+    expect(parseArgs(['run', '--dry-run', '--batch-size', '50', '--only', '001-users-v1'])).toEqual({
+      command: 'run',
+      dryRun: true,
+      batchSize: 50,
+      only: '001-users-v1',
+    });
+  });
+
+  it('rejects unknown commands, unknown options and bad batch sizes', () => {
+    expect(() => parseArgs(['migrate'])).toThrow('Unknown command "migrate"');
+    expect(() => parseArgs(['run', '--force'])).toThrow('Unknown option "--force"');
+    expect(() => parseArgs(['run', '--batch-size', '0'])).toThrow('--batch-size');
+    expect(() => parseArgs(['run', '--batch-size', '501'])).toThrow('--batch-size');
+    expect(() => parseArgs(['run', '--batch-size', 'ten'])).toThrow('--batch-size');
+  });
+});
+
+describe('loadMigrations', () => {
+  let directory: string;
+
+  // Write migration files to a scratch directory
+  const writeMigrations = (files: Record<string, { collection: string; version: number }>) => {
+    Object.entries(files).forEach(([file, { collection, version }]) => {
+      fs.writeFileSync(
+        path.join(directory, file),
+        `module.exports = { collection: '${collection}', version: ${version}, migrate: () => ({}) };\n`
+      );
+    });
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads the repo migrations up to the versions the app writes', () => {
+    const latest: Record<string, number> = {};
+    loadMigrations().forEach((migration: { collection: string; version: number }) => {
+      latest[migration.collection] = migration.version;
+    });
+    expect(latest).toEqual(schemaVersions);
+  });
+
+  it('orders migrations by file name', () => {
+    writeMigrations({
+      '002-users-v2.js': { collection: 'users', version: 2 },
+      '001-users-v1.js': { collection: 'users', version: 1 },
+      '003-chats-v1.js': { collection: 'chats', version: 1 },
+    });
+    expect(loadMigrations(directory).map((migration: { id: string }) => migration.id))
+      .toEqual(['001-users-v1', '002-users-v2', '003-chats-v1']);
+  });
+
+  it('rejects a skipped version', () => {
+    writeMigrations({
+      '001-users-v1.js': { collection: 'users', version: 1 },
+      '002-users-v3.js': { collection: 'users', version: 3 },
+    });
+    expect(() => loadMigrations(directory)).toThrow('002-users-v3 migrates users to version 3, expected 2');
+  });
+
+  it('rejects a collection that does not start at version 1', () => {
+    writeMigrations({ '001-chats-v2.js': { collection: 'chats', version: 2 } });
+    expect(() => loadMigrations(directory)).toThrow('001-chats-v2 migrates chats to version 2, expected 1');
+  });
+});
+
+describe('getUpdates', () => {
+  const migrations = [usersV1, usersV2];
+
+  // The updates for a document, with the fields each migration sets
+  const updatesFor = (...args: Parameters<typeof getUpdates>): Record<string, any> => getUpdates(...args);
+
+  it('runs every migration a document missed, in turn', () => {
+    const updates = updatesFor(migrations, usersV2, { name: 'Guest' });
+    expect(updates.isAnonymous).toBe(true);
+    expect(updates.displayName).toBe('Guest');
+    expect(updates.name.isEqual(FieldValue.delete())).toBe(true);
+    expect(updates.schemaVersion).toBe(2);
+  });
+
+  it('skips migrations a document already has', () => {
+    const updates = updatesFor(migrations, usersV2, { name: 'Guest', email: 'a@example.com', schemaVersion: 1 });
+    expect(updates).not.toHaveProperty('isAnonymous');
+    expect(updates.displayName).toBe('Guest');
+    expect(updates.schemaVersion).toBe(2);
+  });
+
+  it('stops at the migration being run', () => {
+    const updates = updatesFor(migrations, usersV1, { name: 'Guest' });
+    expect(updates).toEqual({ isAnonymous: true, schemaVersion: 1 });
+  });
+
+  it('hides deleted fields from later migrations', () => {
+    const usersV3 = {
+      id: '003-users-v3',
+      collection: 'users',
+      version: 3,
+      description: 'Record whether the old name was still there',
+      migrate: (data: Record<string, unknown>) => ({ hadName: 'name' in data }),
+    };
+    const updates = updatesFor([...migrations, usersV3], usersV3, { name: 'Guest', schemaVersion: 1 });
+    expect(updates.hadName).toBe(false);
+    expect(updates.schemaVersion).toBe(3);
+  });
+});
+
+// These tests run against the Firestore emulator: `npm run test:migrations` starts it
+// and sets FIRESTORE_EMULATOR_HOST. Without an emulator they are skipped.
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('migrations against the emulator', () => {
+  let app: App;
+  let firestore: Firestore;
+
+  // Stored users, by document ID
+  const readUsers = async () => {
+    const snapshot = await firestore.collection('users').get();
+    return Object.fromEntries(snapshot.docs.map(doc => [doc.id, doc.data()]));
+  };
+
+  const seedUsers = (count: number) => Promise.all(Array.from({ length: count }, (_, i) =>
+    firestore.collection('users').doc(`user${i}`).set({ name: `User ${i}` })));
+
+  beforeAll(() => {
+    app = initializeApp({ projectId: 'demo-veryfomo' }, 'migrate-test');
+    firestore = getFirestore(app);
+  });
+
+  beforeEach(async () => {
+    await firestore.recursiveDelete(firestore.collection('users'));
+    await firestore.recursiveDelete(firestore.collection('schemaMigrations'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await deleteApp(app);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    await seedUsers(3);
+    const before = await readUsers();
+
+    await dryRunMigration(firestore, [usersV1], usersV1, 2);
+
+    expect(await readUsers()).toEqual(before);
+    expect((await firestore.collection('schemaMigrations').get()).empty).toBe(true);
+  });
+
+  it('migrates every document in batches and records the run', async () => {
+    await seedUsers(5);
+
+    await runMigration(firestore, [usersV1, usersV2], usersV2, 2);
+
+    const users = await readUsers();
+    Object.values(users).forEach(user => {
+      expect(user).toEqual({ displayName: expect.any(String), isAnonymous: true, schemaVersion: 2 });
+    });
+    const record = (await firestore.collection('schemaMigrations').doc(usersV2.id).get()).data();
+    expect(record).toEqual(expect.objectContaining({ status: 'applied', scanned: 5, migrated: 5, checkpoint: 'user4' }));
+  });
+
+  it('resumes an interrupted run after its checkpoint', async () => {
+    await seedUsers(5);
+    await firestore.collection('schemaMigrations').doc(usersV1.id).set({
+      collection: 'users',
+      version: 1,
+      description: usersV1.description,
+      status: 'running',
+      checkpoint: 'user1',
+      scanned: 2,
+      migrated: 2,
+    });
+
+    await runMigration(firestore, [usersV1], usersV1, 2);
+
+    const users = await readUsers();
+    expect(users.user0).toEqual({ name: 'User 0' });
+    expect(users.user1).toEqual({ name: 'User 1' });
+    ['user2', 'user3', 'user4'].forEach(id => expect(users[id]).toEqual(expect.objectContaining({ schemaVersion: 1 })));
+
+    const record = (await firestore.collection('schemaMigrations').doc(usersV1.id).get()).data();
+    expect(record).toEqual(expect.objectContaining({ status: 'applied', scanned: 5, migrated: 5, checkpoint: 'user4' }));
+  });
+});
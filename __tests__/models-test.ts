@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { DocumentData, QueryDocumentSnapshot, QuerySnapshot, Timestamp } from 'firebase/firestore';
+import { userConverter } from '../app/models/user';
+import { chatConverter } from '../app/models/chat';
+import { messageConverter } from '../app/models/message';
+import { ModelSchema, migrateData, readDocs } from '../app/models/schema';
+
+// A stored document as the converters receive it
+const snapshotOf = (id: string, data: DocumentData, hasPendingWrites = false) => ({
+  id,
+  data: () => data,
+  metadata: { hasPendingWrites, fromCache: false },
+}) as unknown as QueryDocumentSnapshot;
+
+const createdAt = Timestamp.fromMillis(1700000000000);
+
+describe('userConverter', () => {
+  it('reads profiles written before versioning', () => {
+    const guest = userConverter.fromFirestore(snapshotOf('abcdef123', { displayName: 'Guest' }));
+    expect(guest).toEqual(expect.objectContaining({ uid: 'abcdef123', displayName: 'Guest', isAnonymous: true }));
+    expect(guest.lastActive).toBeUndefined();
+
+    const secured = userConverter.fromFirestore(snapshotOf('abcdef123', { email: 'a@example.com' }));
+    expect(secured).toEqual(expect.objectContaining({ displayName: 'User-abcde', isAnonymous: false }));
+  });
+
+  it('keeps the stored isAnonymous of current profiles', () => {
+    const user = userConverter.fromFirestore(snapshotOf('abcdef123', {
+      isAnonymous: true,
+      email: 'a@example.com',
+      lastActive: createdAt,
+      schemaVersion: 1,
+    }));
+    expect(user.isAnonymous).toBe(true);
+    expect(user.lastActive).toEqual(createdAt.toDate());
+  });
+
+  it('rejects invalid profiles', () => {
+    expect(() => userConverter.fromFirestore(snapshotOf('abcdef123', { isAnonymous: true, presence: 'busy' })))
+      .toThrow('Invalid document users/abcdef123: unknown presence "busy"');
+    expect(() => userConverter.fromFirestore(snapshotOf('abcdef123', { isAnonymous: 'yes', schemaVersion: 1 })))
+      .toThrow('isAnonymous must be a boolean');
+  });
+
+  it('stamps full writes with the schema version and leaves merges alone', () => {
+    expect(userConverter.toFirestore({ uid: 'abcdef123', displayName: 'Alice', isAnonymous: true, email: undefined }))
+      .toEqual({ uid: 'abcdef123', displayName: 'Alice', isAnonymous: true, schemaVersion: 1 });
+    expect(userConverter.toFirestore({ presence: 'online' }, { merge: true })).toEqual({ presence: 'online' });
+  });
+});
+
+describe('chatConverter', () => {
+  const chatData = {
+    participants: ['alice', 'bob'],
+    participantNames: { alice: 'Alice', bob: 'Bob' },
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  it('converts timestamps and fills in optional fields', () => {
+    const chat = chatConverter.fromFirestore(snapshotOf('chat1', {
+      ...chatData,
+      lastMessage: { text: 'Hi', createdAt, senderId: 'alice' },
+      lastReadAt: { bob: createdAt },
+    }));
+    expect(chat).toEqual(expect.objectContaining({
+      id: 'chat1',
+      isGroup: false,
+      admins: [],
+      lastMessage: { text: 'Hi', createdAt: createdAt.toDate(), senderId: 'alice', messageId: undefined },
+      lastReadAt: { bob: createdAt.toDate() },
+      unreadCounts: {},
+      mergedAccounts: {},
+    }));
+  });
+
+  it('rejects chats without valid participants', () => {
+    expect(() => chatConverter.fromFirestore(snapshotOf('chat1', { ...chatData, participants: 'alice' })))
+      .toThrow('Invalid document chats/chat1: participants must be a list of strings');
+    expect(() => chatConverter.fromFirestore(snapshotOf('chat1', { ...chatData, createdAt: undefined })))
+      .toThrow('createdAt must be a timestamp');
+  });
+
+  it('never writes the ID or derived fields', () => {
+    const { createdAt: created, updatedAt, ...rest } = chatData;
+    expect(chatConverter.toFirestore({
+      ...rest,
+      id: 'chat1',
+      createdAt: created.toDate(),
+      updatedAt: updatedAt.toDate(),
+      unreadCount: 3,
+    })).toEqual({ ...rest, createdAt: created.toDate(), updatedAt: updatedAt.toDate(), schemaVersion: 1 });
+  });
+});
+
+describe('messageConverter', () => {
+  it('marks messages that are only in the local cache as pending', () => {
+    const message = messageConverter.fromFirestore(snapshotOf('message1', {
+      chatId: 'chat1',
+      senderId: 'abcdef123',
+      text: 'Hello',
+      createdAt,
+    }, true));
+    expect(message).toEqual(expect.objectContaining({
+      id: 'message1',
+      senderName: 'User-abcde',
+      attachments: [],
+      deleted: false,
+      pending: true,
+    }));
+  });
+});
+
+describe('readDocs', () => {
+  it('leaves out invalid documents', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const docs = [
+      snapshotOf('good', { isAnonymous: false, schemaVersion: 1 }),
+      snapshotOf('bad', { displayName: 42 }),
+    ].map(snapshot => ({ data: () => userConverter.fromFirestore(snapshot) }));
+
+    const users = readDocs({ docs } as unknown as QuerySnapshot<any>);
+    expect(users.map(user => user.uid)).toEqual(['good']);
+    expect(error).toHaveBeenCalledWith('Invalid document users/bad: displayName must be a string');
+    error.mockRestore();
+  });
+});
+
+describe('migrateData', () => {
+  const schema = {
+    collection: 'things',
+    version: 2,
+    migrations: [
+      (data: DocumentData) => ({ ...data, count: data.count ?? 0 }),
+      (data: DocumentData) => ({ ...data, count: data.count + 1 }),
+    ],
+  } as unknown as ModelSchema<object>;
+
+  it('runs every migration from the stored version up', () => {
+    expect(migrateData(schema, {})).toEqual({ count: 1, schemaVersion: 2 });
+    expect(migrateData(schema, { count: 5, schemaVersion: 1 })).toEqual({ count: 6, schemaVersion: 2 });
+    expect(migrateData(schema, { count: 5, schemaVersion: 2 })).toEqual({ count: 5, schemaVersion: 2 });
+  });
+
+  it('reads documents from a newer schema as they are', () => {
+    expect(migrateData(schema, { count: 5, schemaVersion: 3 })).toEqual({ count: 5, schemaVersion: 3 });
+  });
+});
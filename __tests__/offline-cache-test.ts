@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { Chat } from '../app/models/chat';
+import { Message } from '../app/models/message';
+import {
+  OFFLINE_SNAPSHOTS_ENABLED,
+  loadCachedChats,
+  loadCachedMessages,
+  mergeWithCached,
+  saveCachedChats,
+  saveCachedMessages,
+} from '../app/services/offlineCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const now = 1700000000000;
+
+// A chat last updated at the given time. Its preview text looks like a date, and must stay text.
+const chatAt = (id: string, updatedAt: number): Chat => ({
+  id,
+  participants: ['alice', 'bob'],
+  participantNames: { alice: 'Alice', bob: 'Bob' },
+  lastMessage: { text: '2023-11-14T22:13:20.000Z', senderId: 'bob', createdAt: new Date(updatedAt), messageId: 'm1' },
+  createdAt: new Date(now),
+  updatedAt: new Date(updatedAt),
+  lastReadAt: { alice: new Date(updatedAt) },
+  unreadCounts: { alice: 1 },
+});
+
+const messageAt = (id: string, createdAt: number, overrides: Partial<Message> = {}): Message => ({
+  id,
+  text: 'Hello',
+  createdAt: new Date(createdAt),
+  senderId: 'bob',
+  senderName: 'Bob',
+  chatId: 'chat1',
+  ...overrides,
+});
+
+describe('offline snapshots', () => {
+  it('are kept on native builds', () => {
+    expect(OFFLINE_SNAPSHOTS_ENABLED).toBe(true);
+  });
+
+  it('read chats back with their dates', async () => {
+    const chats = [chatAt('chat1', now + 2000), chatAt('chat2', now + 1000)];
+    await saveCachedChats('alice', chats);
+
+    expect(await loadCachedChats('alice')).toEqual(chats);
+  });
+
+  it('read messages back with their dates, without the pending flag', async () => {
+    const messages = [
+      messageAt('m2', now + 1000, { editedAt: new Date(now + 2000), pending: true }),
+      messageAt('m1', now),
+    ];
+    await saveCachedMessages('alice', 'chat1', messages);
+
+    expect(await loadCachedMessages('alice', 'chat1')).toEqual([
+      messageAt('m2', now + 1000, { editedAt: new Date(now + 2000) }),
+      messageAt('m1', now),
+    ]);
+  });
+
+  it('keep only the newest chats and messages', async () => {
+    await saveCachedChats('alice', Array.from({ length: 60 }, (_, i) => chatAt(`chat${i}`, now - i)));
+    await saveCachedMessages('alice', 'chat1', Array.from({ length: 60 }, (_, i) => messageAt(`m${i}`, now - i)));
+
+    const chats = await loadCachedChats('alice');
+    expect(chats).toHaveLength(50);
+    expect(chats[49].id).toBe('chat49');
+    expect(await loadCachedMessages('alice', 'chat1')).toHaveLength(50);
+  });
+
+  it('are never shown to another account', async () => {
+    await saveCachedChats('alice', [chatAt('chat1', now)]);
+    await saveCachedMessages('alice', 'chat1', [messageAt('m1', now)]);
+
+    expect(await loadCachedChats('bob')).toEqual([]);
+    expect(await loadCachedMessages('bob', 'chat1')).toEqual([]);
+  });
+});
+
+describe('mergeWithCached', () => {
+  const byCreatedAt = (message: Message) => message.createdAt.getTime();
+
+  it("fills in what Firestore's cache doesn't have, newest first", () => {
+    const cached = [messageAt('m2', now + 2000), messageAt('m1', now)];
+    const live = [messageAt('m3', now + 1000)];
+
+    expect(mergeWithCached(cached, live, byCreatedAt).map(message => message.id)).toEqual(['m2', 'm3', 'm1']);
+  });
+
+  it("prefers Firestore's copy of a document", () => {
+    const cached = [messageAt('m1', now)];
+    const live = [messageAt('m1', now, { text: 'Edited offline', pending: true })];
+
+    expect(mergeWithCached(cached, live, byCreatedAt)).toEqual(live);
+  });
+});
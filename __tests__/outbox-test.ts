@@ -0,0 +1,175 @@
+/**
+ * @jest-environment node
+ */
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import type { OutgoingMessage } from '../app/services/outbox';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The outbox only needs the chat service's send and the signed-in user
+const mockChat = {
+  currentUser: { uid: 'alice', displayName: 'Alice' } as { uid: string; displayName: string } | null,
+  sendMessage: jest.fn(),
+  nextId: 0,
+};
+jest.mock('../app/services/chat', () => ({
+  sendMessage: (...args: unknown[]) => mockChat.sendMessage(...args),
+  createMessageId: () => `message${mockChat.nextId++}`,
+  getCurrentUser: () => mockChat.currentUser,
+}));
+
+jest.mock('../app/services/attachments', () => ({
+  uploadAttachment: jest.fn(),
+}));
+
+// A send that doesn't settle until the test resolves it
+const deferred = () => {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+// Let queued promise callbacks run
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('outbox', () => {
+  // The queue lives at module level, so every test loads a fresh copy
+  let outbox: typeof import('../app/services/outbox');
+  let AsyncStorage: typeof AsyncStorageStatic;
+
+  // Load the outbox as on a new app launch, with the given stored queue
+  const launch = async (stored: string | null = null) => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    if (stored) await AsyncStorage.setItem('message_outbox', stored);
+    outbox = require('../app/services/outbox');
+  };
+
+  // The queue as persisted for the next launch
+  const queued = async (): Promise<OutgoingMessage[]> => {
+    await flushPromises();
+    return JSON.parse((await AsyncStorage.getItem('message_outbox')) || '[]');
+  };
+
+  beforeEach(async () => {
+    mockChat.currentUser = { uid: 'alice', displayName: 'Alice' };
+    mockChat.sendMessage.mockReset();
+    mockChat.nextId = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await launch();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows a message as pending until the write is acknowledged', async () => {
+    const send = deferred();
+    mockChat.sendMessage.mockReturnValue(send.promise);
+
+    const message = await outbox.enqueueMessage('chat1', 'Hello');
+    expect(message).toEqual(expect.objectContaining({
+      chatId: 'chat1',
+      text: 'Hello',
+      senderId: 'alice',
+      senderName: 'Alice',
+      status: 'pending',
+    }));
+    expect(await queued()).toEqual([expect.objectContaining({ id: message.id, status: 'pending', attempts: 1 })]);
+    expect(mockChat.sendMessage).toHaveBeenCalledWith('chat1', 'Hello', expect.objectContaining({
+      messageId: message.id,
+      dedupe: false,
+    }));
+
+    send.resolve();
+    await flushPromises();
+    expect(await queued()).toEqual([]);
+  });
+
+  it('marks a message failed when the write fails, and retries it without duplicating', async () => {
+    mockChat.sendMessage.mockRejectedValueOnce(new Error('offline'));
+
+    const message = await outbox.enqueueMessage('chat1', 'Hello');
+    await flushPromises();
+    expect(await queued()).toEqual([expect.objectContaining({ id: message.id, status: 'failed', attempts: 1 })]);
+
+    mockChat.sendMessage.mockResolvedValueOnce(undefined);
+    await outbox.retryMessage(message.id);
+
+    // A repeat attempt checks the server for the first delivery
+    expect(mockChat.sendMessage).toHaveBeenLastCalledWith('chat1', 'Hello', expect.objectContaining({
+      messageId: message.id,
+      dedupe: true,
+    }));
+    expect(await queued()).toEqual([]);
+  });
+
+  it('sends a message only once while it is in flight', async () => {
+    const send = deferred();
+    mockChat.sendMessage.mockReturnValue(send.promise);
+
+    const message = await outbox.enqueueMessage('chat1', 'Hello');
+    outbox.retryMessage(message.id);
+    outbox.retryMessage(message.id);
+    expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+
+    send.resolve();
+    await flushPromises();
+  });
+
+  it('drops a discarded message without sending it again', async () => {
+    mockChat.sendMessage.mockRejectedValueOnce(new Error('offline'));
+
+    const message = await outbox.enqueueMessage('chat1', 'Hello');
+    await flushPromises();
+    outbox.discardMessage(message.id);
+
+    expect(await queued()).toEqual([]);
+    await outbox.retryMessage(message.id);
+    expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the queue across restarts and resends pending messages', async () => {
+    mockChat.sendMessage.mockReturnValue(new Promise(() => {}));
+    const message = await outbox.enqueueMessage('chat1', 'Hello');
+    await flushPromises();
+
+    // A new app launch restores the queue from AsyncStorage
+    mockChat.sendMessage.mockReset();
+    mockChat.sendMessage.mockResolvedValue(undefined);
+    await launch(await AsyncStorage.getItem('message_outbox'));
+
+    await outbox.flushOutbox();
+    expect(mockChat.sendMessage).toHaveBeenCalledWith('chat1', 'Hello', expect.objectContaining({
+      messageId: message.id,
+      dedupe: true,
+    }));
+  });
+
+  it('leaves failed messages for the user to retry after a restart', async () => {
+    mockChat.sendMessage.mockRejectedValueOnce(new Error('offline'));
+    await outbox.enqueueMessage('chat1', 'Hello');
+    await flushPromises();
+
+    await launch(await AsyncStorage.getItem('message_outbox'));
+
+    await outbox.flushOutbox();
+    expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+    expect(await queued()).toEqual([expect.objectContaining({ status: 'failed' })]);
+  });
+
+  it("never sends another account's queued messages", async () => {
+    mockChat.sendMessage.mockRejectedValueOnce(new Error('offline'));
+    const message = await outbox.enqueueMessage('chat1', 'Hello');
+    await flushPromises();
+
+    mockChat.currentUser = { uid: 'bob', displayName: 'Bob' };
+    await outbox.retryMessage(message.id);
+    expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+  });
+});
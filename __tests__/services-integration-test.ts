@@ -0,0 +1,373 @@
+/**
+ * @jest-environment node
+ */
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { signOut, updateCurrentUser, User as FirebaseUser } from 'firebase/auth';
+import { collection, doc, getDoc, getDocs, query, terminate, where } from 'firebase/firestore';
+
+// These tests run the app's services and hooks against the emulator suite:
+// `npm run test:integration` starts it and selects the emulator environment
+// with APP_ENV. Otherwise they are skipped.
+const describeWithEmulator = process.env.APP_ENV === 'emulator' ? describe : describe.skip;
+
+// The Expo config the app would get from app.config.js
+jest.mock('expo-constants', () => {
+  const actual = jest.requireActual('expo-constants');
+  return {
+    ...actual,
+    __esModule: true,
+    default: {
+      ...actual.default,
+      expoConfig: require('../app.config.js')({ config: require('../app.json').expo }),
+    },
+  };
+});
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Hooks take the signed-in user from AuthContext; without the provider (and the
+// presence and device registration it starts) they see the Firebase Auth user
+jest.mock('../app/contexts/AuthContext', () => ({
+  useAuthContext: () => ({ user: require('../app/firebase').auth.currentUser }),
+}));
+
+// Count open snapshot listeners, so tests can check that hooks clean up after themselves
+const mockListeners = { active: 0 };
+jest.mock('firebase/firestore', () => {
+  const actual = jest.requireActual<typeof import('firebase/firestore')>('firebase/firestore');
+  return {
+    ...actual,
+    onSnapshot: (...args: Parameters<typeof actual.onSnapshot>) => {
+      const unsubscribe = actual.onSnapshot(...args);
+      let open = true;
+      mockListeners.active += 1;
+      return () => {
+        if (open) {
+          open = false;
+          mockListeners.active -= 1;
+        }
+        unsubscribe();
+      };
+    },
+  };
+});
+
+jest.setTimeout(30000);
+
+// A user seeded through app/utils/testAuth, with the session to switch back to it
+interface TestUser {
+  uid: string;
+  displayName: string;
+  user: FirebaseUser;
+}
+
+describeWithEmulator('services against the emulator', () => {
+  // Loaded once the emulator is known to be running, so a skipped run never
+  // initializes Firebase against the production project
+  let firebase: typeof import('../app/firebase');
+  let chat: typeof import('../app/services/chat');
+  let contacts: typeof import('../app/services/contacts');
+  let testAuth: typeof import('../app/utils/testAuth');
+
+  let alice: TestUser;
+  let bob: TestUser;
+  let mallory: TestUser;
+
+  // Create an anonymous user with a profile; they stay signed in afterwards
+  const seedUser = async (name: string): Promise<TestUser> => {
+    const { uid, displayName } = await testAuth.createTestUser(name);
+    return { uid, displayName, user: firebase.auth.currentUser as FirebaseUser };
+  };
+
+  // Make a seeded user the signed-in user again
+  const signInAs = (testUser: TestUser) => updateCurrentUser(firebase.auth, testUser.user);
+
+  // Messages stored for a chat, oldest first
+  const getChatMessages = async (chatId: string) => {
+    const snapshot = await getDocs(query(collection(firebase.firestore, 'messages'), where('chatId', '==', chatId)));
+    return snapshot.docs
+      .map(messageDoc => messageDoc.data())
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    firebase = require('../app/firebase');
+    chat = require('../app/services/chat');
+    contacts = require('../app/services/contacts');
+    testAuth = require('../app/utils/testAuth');
+  });
+
+  afterAll(async () => {
+    await signOut(firebase.auth);
+    await terminate(firebase.firestore);
+  });
+
+  // Fresh users for every test keep their chats and contacts apart
+  beforeEach(async () => {
+    alice = await seedUser('Alice');
+    bob = await seedUser('Bob');
+    mallory = await seedUser('Mallory');
+    await signInAs(alice);
+  });
+
+  describe('createChat and checkExistingChat', () => {
+    it('creates a 1:1 chat with a welcome message', async () => {
+      expect(await chat.checkExistingChat([alice.uid, bob.uid])).toBeNull();
+
+      const chatId = await chat.createChat([bob.uid], { [bob.uid]: 'Bob' });
+
+      const chatDoc = await getDoc(doc(firebase.firestore, 'chats', chatId));
+      expect(chatDoc.data()).toMatchObject({
+        participants: [alice.uid, bob.uid].sort(),
+        participantNames: { [alice.uid]: 'Alice', [bob.uid]: 'Bob' },
+        schemaVersion: 1,
+      });
+      expect(await getChatMessages(chatId)).toEqual([
+        expect.objectContaining({ senderId: 'system', text: 'Chat created. Say hello!' }),
+      ]);
+    });
+
+    it('finds and reuses an existing chat regardless of participant order', async () => {
+      const chatId = await chat.createChat([bob.uid], { [bob.uid]: 'Bob' });
+
+      expect(await chat.checkExistingChat([bob.uid, alice.uid])).toBe(chatId);
+      expect(await chat.createChat([bob.uid], { [bob.uid]: 'Bob' })).toBe(chatId);
+
+      await signInAs(bob);
+      expect(await chat.createChat([alice.uid], { [alice.uid]: 'Alice' })).toBe(chatId);
+    });
+
+    it('requires a signed-in user', async () => {
+      await signOut(firebase.auth);
+
+      await expect(chat.createChat([bob.uid], { [bob.uid]: 'Bob' })).rejects.toThrow('No user is signed in');
+    });
+  });
+
+  describe('sendMessage', () => {
+    let chatId: string;
+
+    beforeEach(async () => {
+      chatId = await chat.createChat([bob.uid], { [bob.uid]: 'Bob' });
+    });
+
+    it('stores the message and updates the chat preview and unread counts', async () => {
+      const { messageId } = await chat.sendMessage(chatId, 'Hello Bob');
+
+      const messageDoc = await getDoc(doc(firebase.firestore, 'messages', messageId));
+      expect(messageDoc.data()).toMatchObject({
+        chatId,
+        text: 'Hello Bob',
+        senderId: alice.uid,
+        senderName: 'Alice',
+        keywords: expect.arrayContaining(['hello', 'bob']),
+        schemaVersion: 1,
+      });
+
+      const chatDoc = await getDoc(doc(firebase.firestore, 'chats', chatId));
+      expect(chatDoc.data()).toMatchObject({
+        lastMessage: { text: 'Hello Bob', senderId: alice.uid, messageId },
+        unreadCounts: { [alice.uid]: 0, [bob.uid]: 1 },
+      });
+    });
+
+    it('rejects empty and oversized messages without writing anything', async () => {
+      await expect(chat.sendMessage(chatId, '')).rejects.toThrow('Message is empty');
+      await expect(chat.sendMessage(chatId, 'x'.repeat(chat.MAX_MESSAGE_LENGTH + 1))).rejects.toThrow('Message is too long');
+
+      expect(await getChatMessages(chatId)).toHaveLength(1);
+    });
+
+    it('rejects messages to chats the sender is not in', async () => {
+      await signInAs(mallory);
+
+      await expect(chat.sendMessage(chatId, 'Hi')).rejects.toMatchObject({ code: 'permission-denied' });
+      await expect(chat.sendMessage('missing-chat', 'Hi')).rejects.toMatchObject({ code: 'permission-denied' });
+    });
+  });
+
+  describe('useChats', () => {
+    it("lists the user's chats and follows new messages", async () => {
+      const chatId = await chat.createChat([bob.uid], { [bob.uid]: 'Bob' });
+      await chat.sendMessage(chatId, 'Are you there?');
+      await signInAs(bob);
+
+      const { result } = renderHook(() => chat.useChats());
+      expect(result.current.loading).toBe(true);
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.error).toBeNull();
+      expect(result.current.chats.map(c => c.id)).toEqual([chatId]);
+      expect(result.current.chats[0]).toMatchObject({
+        participantNames: { [alice.uid]: 'Alice', [bob.uid]: 'Bob' },
+        lastMessage: { text: 'Are you there?', senderId: alice.uid },
+        unreadCount: 1,
+      });
+
+      // Replying marks the chat as read
+      await act(async () => {
+        await chat.sendMessage(chatId, 'Yes!');
+      });
+
+      await waitFor(() => expect(result.current.chats[0].lastMessage?.text).toBe('Yes!'));
+      expect(result.current.chats[0].unreadCount).toBe(0);
+    });
+
+    it('does not list chats the user is not in', async () => {
+      await chat.createChat([bob.uid], { [bob.uid]: 'Bob' });
+      await signInAs(mallory);
+
+      const { result } = renderHook(() => chat.useChats());
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.chats).toEqual([]);
+    });
+
+    it('returns no chats when signed out', async () => {
+      await signOut(firebase.auth);
+      const listenersBefore = mockListeners.active;
+
+      const { result } = renderHook(() => chat.useChats());
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.chats).toEqual([]);
+      expect(result.current.error).toBeNull();
+      expect(mockListeners.active).toBe(listenersBefore);
+    });
+
+    it('stops listening when unmounted', async () => {
+      const listenersBefore = mockListeners.active;
+      const { result, unmount } = renderHook(() => chat.useChats());
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(mockListeners.active).toBe(listenersBefore + 1);
+
+      unmount();
+
+      expect(mockListeners.active).toBe(listenersBefore);
+    });
+  });
+
+  describe('useMessages', () => {
+    let chatId: string;
+
+    beforeEach(async () => {
+      chatId = await chat.createChat([bob.uid], { [bob.uid]: 'Bob' });
+    });
+
+    it('lists messages newest first and follows new ones', async () => {
+      await chat.sendMessage(chatId, 'First');
+
+      const { result } = renderHook(() => chat.useMessages(chatId));
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.messages.map(m => m.text)).toEqual(['First', 'Chat created. Say hello!']);
+
+      await act(async () => {
+        await chat.sendMessage(chatId, 'Second');
+      });
+
+      await waitFor(() => expect(result.current.messages.map(m => m.text)).toEqual([
+        'Second',
+        'First',
+        'Chat created. Say hello!',
+      ]));
+    });
+
+    it('loads older messages a page at a time', async () => {
+      for (const text of ['One', 'Two', 'Three']) {
+        await chat.sendMessage(chatId, text);
+      }
+
+      const { result } = renderHook(() => chat.useMessages(chatId, { pageSize: 2 }));
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.messages.map(m => m.text)).toEqual(['Three', 'Two']);
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        await result.current.loadOlder();
+      });
+      expect(result.current.messages.map(m => m.text)).toEqual(['Three', 'Two', 'One', 'Chat created. Say hello!']);
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        await result.current.loadOlder();
+      });
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('reports an error for a chat the user is not in', async () => {
+      await signInAs(mallory);
+
+      const { result } = renderHook(() => chat.useMessages(chatId));
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.error).toMatchObject({ code: 'permission-denied' });
+      expect(result.current.messages).toEqual([]);
+    });
+
+    it('moves its listener when the chat changes and stops when unmounted', async () => {
+      const otherChatId = await chat.createChat([mallory.uid], { [mallory.uid]: 'Mallory' });
+      const listenersBefore = mockListeners.active;
+
+      const { result, rerender, unmount } = renderHook(
+        ({ id }: { id: string }) => chat.useMessages(id),
+        { initialProps: { id: chatId } }
+      );
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(mockListeners.active).toBe(listenersBefore + 1);
+
+      rerender({ id: otherChatId });
+      await waitFor(() => expect(result.current.messages[0]?.chatId).toBe(otherChatId));
+      expect(mockListeners.active).toBe(listenersBefore + 1);
+
+      unmount();
+      expect(mockListeners.active).toBe(listenersBefore);
+    });
+  });
+
+  // useUsers listed every profile; it was replaced by useContacts when profiles
+  // became visible to contacts only
+  describe('useContacts', () => {
+    it('lists contacts once a friend request is accepted and drops removed ones', async () => {
+      expect(await contacts.sendFriendRequest(bob.uid, 'Bob')).toBe('sent');
+      await signInAs(bob);
+
+      const { result } = renderHook(() => contacts.useContacts());
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.contacts).toEqual([]);
+
+      // Asking back accepts the pending request
+      await act(async () => {
+        expect(await contacts.sendFriendRequest(alice.uid, 'Alice')).toBe('accepted');
+      });
+      await waitFor(() => expect(result.current.contacts.map(c => c.displayName)).toEqual(['Alice']));
+      expect(result.current.contacts[0].uid).toBe(alice.uid);
+
+      await act(async () => {
+        await contacts.removeContact(alice.uid);
+      });
+      await waitFor(() => expect(result.current.contacts).toEqual([]));
+    });
+
+    it("stops following the list and contacts' profiles when unmounted", async () => {
+      await contacts.sendFriendRequest(bob.uid, 'Bob');
+      await signInAs(bob);
+      await contacts.sendFriendRequest(alice.uid, 'Alice');
+      const listenersBefore = mockListeners.active;
+
+      const { result, unmount } = renderHook(() => contacts.useContacts());
+      await waitFor(() => expect(result.current.contacts).toHaveLength(1));
+      expect(mockListeners.active).toBe(listenersBefore + 2);
+
+      unmount();
+
+      expect(mockListeners.active).toBe(listenersBefore);
+    });
+
+    it('does not let a user add themselves', async () => {
+      await expect(contacts.sendFriendRequest(alice.uid, 'Alice')).rejects.toThrow('You cannot add yourself');
+    });
+  });
+});
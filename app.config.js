@@ -0,0 +1,19 @@
+// Dynamic Expo config: app.json plus the Firebase environment selected with
+// APP_ENV (prod or emulator), e.g. `APP_ENV=emulator npx expo start`.
+// The app reads it through app/config/environment.ts.
+const { getEnvironment } = require('./scripts/firebase-environment');
+
+module.exports = ({ config }) => {
+  const { name, firebase, emulators } = getEnvironment();
+  // Only the selected profile ships with the app
+  const extra = { ...config.extra };
+  delete extra.environments;
+
+  return {
+    ...config,
+    extra: {
+      ...extra,
+      environment: { name, firebase, emulators },
+    },
+  };
+};
@@ -1,15 +1,29 @@
-import React, { useEffect } from 'react';
-import { View, Text, FlatList, TouchableOpacity, StyleSheet, ActivityIndicator, SafeAreaView, Image } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, ActivityIndicator, SafeAreaView, Image, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
-import { useUsers } from '../services/user';
+import { useContacts, useFriendRequests, acceptFriendRequest, deleteFriendRequest, removeContact, FriendRequest } from '../services/contacts';
 import { useAuthContext } from '../contexts/AuthContext';
 import { Ionicons } from '@expo/vector-icons';
 import { checkExistingChat, createChat } from '../services/chat';
+import { getEffectivePresence, getPresenceLabel, useNow } from '../services/presence';
+import { useBlockedUsers, unblockUser } from '../services/moderation';
+import { ActionSheet, ActionSheetAction } from '@/components/ActionSheet';
+import { getReportActions } from '@/components/getReportActions';
+import { confirmBlockUser } from '@/components/confirmBlockUser';
 
 export default function ContactsScreen() {
-  const { users, loading, error } = useUsers();
+  const { contacts: allContacts, loading, error } = useContacts();
+  const { incoming, outgoing } = useFriendRequests();
+  const { blockedIds } = useBlockedUsers();
   const { user: currentUser, loading: authLoading } = useAuthContext();
   const router = useRouter();
+  const [showBlocked, setShowBlocked] = useState(false);
+  const [sheet, setSheet] = useState<{ title: string; actions: ActionSheetAction[] } | null>(null);
+  const contacts = allContacts.filter(u => !blockedIds.includes(u.uid));
+  const blockedUsers = allContacts.filter(u => blockedIds.includes(u.uid));
+  const requests = [...incoming, ...outgoing].filter(request => !blockedIds.includes(request.from));
+  // Re-render periodically so "last seen" times stay current
+  const now = useNow();
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -54,6 +68,54 @@ export default function ContactsScreen() {
     }
   };
 
+  // Unblock a user
+  const handleUnblock = (userId: string) => {
+    unblockUser(userId).catch(() => Alert.alert('Error', 'Failed to unblock user.'));
+  };
+
+  // Accept or decline an incoming request, or cancel an outgoing one
+  const handleRequest = (request: FriendRequest, accept: boolean) => {
+    (accept ? acceptFriendRequest(request) : deleteFriendRequest(request))
+      .catch(() => Alert.alert('Error', 'Failed to update the contact request.'));
+  };
+
+  // Remove a contact after confirmation
+  const confirmRemove = (userId: string, displayName: string) => {
+    Alert.alert(
+      `Remove ${displayName}?`,
+      'You will be removed from their contacts too. Existing chats are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            removeContact(userId).catch(() => Alert.alert('Error', 'Failed to remove contact.'));
+          },
+        },
+      ]
+    );
+  };
+
+  // Show remove, block and report actions for a contact
+  const handleUserLongPress = (userId: string, displayName: string) => {
+    setSheet({
+      title: displayName,
+      actions: [
+        { label: 'Remove Contact', destructive: true, onPress: () => confirmRemove(userId, displayName) },
+        { label: 'Block', destructive: true, onPress: () => confirmBlockUser(userId, displayName) },
+        {
+          label: 'Report',
+          destructive: true,
+          onPress: () => setSheet({
+            title: `Why are you reporting ${displayName}?`,
+            actions: getReportActions({ userId, userName: displayName }),
+          }),
+        },
+      ],
+    });
+  };
+
   // Generate a color based on user ID for the avatar
   const getAvatarColor = (userId: string) => {
     const colors = [
@@ -67,33 +129,81 @@ export default function ContactsScreen() {
   };
 
   // Render each user item
-  const renderUserItem = ({ item }: { item: any }) => (
-    <TouchableOpacity
-      style={styles.userItem}
-      onPress={() => startChat(item.uid, item.displayName)}
-      activeOpacity={0.7}
-    >
-      <View style={[styles.avatar, { backgroundColor: getAvatarColor(item.uid) }]}>
-        {item.photoURL ? (
-          <Image source={{ uri: item.photoURL }} style={styles.avatarImage} />
+  const renderUserItem = ({ item }: { item: any }) => {
+    const presenceState = getEffectivePresence(item, now);
+
+    return (
+      <TouchableOpacity
+        style={styles.userItem}
+        onPress={() => showBlocked ? handleUnblock(item.uid) : startChat(item.uid, item.displayName)}
+        onLongPress={() => !showBlocked && handleUserLongPress(item.uid, item.displayName)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.avatar, { backgroundColor: getAvatarColor(item.uid) }]}>
+          {item.photoURL ? (
+            <Image source={{ uri: item.photoURL }} style={styles.avatarImage} />
+          ) : (
+            <Text style={styles.avatarText}>{item.displayName[0]}</Text>
+          )}
+          {presenceState !== 'offline' && (
+            <View
+              style={[
+                styles.presenceDot,
+                { backgroundColor: presenceState === 'online' ? '#34C759' : '#FF9500' },
+              ]}
+            />
+          )}
+        </View>
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>{item.displayName}</Text>
+          <Text style={styles.userStatus}>
+            {showBlocked
+              ? 'Tap to unblock'
+              : item.lastActive ? getPresenceLabel({ state: item.presence, lastActive: item.lastActive }, now) : 'Tap to chat'}
+          </Text>
+        </View>
+        {showBlocked ? (
+          <Ionicons name="remove-circle-outline" size={20} color="#FF3B30" />
         ) : (
-          <Text style={styles.avatarText}>{item.displayName[0]}</Text>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
         )}
+      </TouchableOpacity>
+    );
+  };
+
+  // Render a pending request: incoming ones can be accepted, outgoing ones cancelled
+  const renderRequest = (request: FriendRequest) => {
+    const isIncoming = request.to === currentUser?.uid;
+    const name = isIncoming ? request.fromName : request.toName;
+
+    return (
+      <View key={request.id} style={styles.userItem}>
+        <View style={[styles.avatar, { backgroundColor: getAvatarColor(isIncoming ? request.from : request.to) }]}>
+          <Text style={styles.avatarText}>{name[0]}</Text>
+        </View>
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>{name}</Text>
+          <Text style={styles.userStatus}>{isIncoming ? 'Wants to add you' : 'Request sent'}</Text>
+        </View>
+        {isIncoming && (
+          <TouchableOpacity style={styles.requestButton} onPress={() => handleRequest(request, true)}>
+            <Text style={styles.retryText}>Accept</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.requestAction} onPress={() => handleRequest(request, false)}>
+          <Text style={styles.requestActionText}>{isIncoming ? 'Decline' : 'Cancel'}</Text>
+        </TouchableOpacity>
       </View>
-      <View style={styles.userInfo}>
-        <Text style={styles.userName}>{item.displayName}</Text>
-        <Text style={styles.userStatus}>
-          {item.lastActive ? `Last active: ${new Date(item.lastActive).toLocaleDateString()}` : 'Tap to chat'}
-        </Text>
-      </View>
-      <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
-    </TouchableOpacity>
-  );
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
+      <View style={[styles.header, styles.headerRow]}>
         <Text style={styles.title}>Contacts</Text>
+        <TouchableOpacity onPress={() => router.push('/add-contact')}>
+          <Ionicons name="person-add-outline" size={24} color="#007AFF" />
+        </TouchableOpacity>
       </View>
 
       {loading ? (
@@ -107,22 +217,58 @@ export default function ContactsScreen() {
             <Text style={styles.retryText}>Retry</Text>
           </TouchableOpacity>
         </View>
-      ) : users.length === 0 ? (
+      ) : allContacts.length === 0 && requests.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="people-outline" size={64} color="#C7C7CC" />
-          <Text style={styles.emptyText}>No contacts found</Text>
+          <Text style={styles.emptyText}>No contacts yet</Text>
           <Text style={styles.emptySubtext}>
-            Other users will appear here when they join VeryFomo
+            Add people with their share code, or share yours so they can add you
           </Text>
+          <TouchableOpacity style={[styles.retryButton, { marginTop: 16 }]} onPress={() => router.push('/add-contact')}>
+            <Text style={styles.retryText}>Add Contact</Text>
+          </TouchableOpacity>
         </View>
       ) : (
         <FlatList
-          data={users}
+          data={showBlocked ? blockedUsers : contacts}
           renderItem={renderUserItem}
           keyExtractor={(item) => item.uid}
           contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            showBlocked ? (
+              <TouchableOpacity style={styles.sectionRow} onPress={() => setShowBlocked(false)}>
+                <Ionicons name="chevron-back" size={18} color="#007AFF" />
+                <Text style={[styles.sectionText, { color: '#007AFF' }]}>Blocked Users</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                {requests.length > 0 && (
+                  <Text style={styles.sectionTitle}>Requests</Text>
+                )}
+                {requests.map(renderRequest)}
+                {blockedUsers.length > 0 && (
+                  <TouchableOpacity style={styles.sectionRow} onPress={() => setShowBlocked(true)}>
+                    <Ionicons name="ban-outline" size={18} color="#8E8E93" />
+                    <Text style={styles.sectionText}>Blocked</Text>
+                    <Text style={styles.userStatus}>{blockedUsers.length}</Text>
+                  </TouchableOpacity>
+                )}
+                {requests.length > 0 && contacts.length > 0 && (
+                  <Text style={styles.sectionTitle}>Contacts</Text>
+                )}
+              </>
+            )
+          }
         />
       )}
+
+      {/* Block and report actions */}
+      <ActionSheet
+        visible={!!sheet}
+        title={sheet?.title}
+        actions={sheet?.actions || []}
+        onClose={() => setSheet(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -138,6 +284,11 @@ const styles = StyleSheet.create({
     borderBottomColor: '#E5E5EA',
     backgroundColor: 'white',
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   title: {
     fontSize: 22,
     fontWeight: 'bold',
@@ -146,6 +297,43 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  sectionTitle: {
+    paddingHorizontal: 12,
+    paddingTop: 16,
+    paddingBottom: 6,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+  },
+  requestButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  requestAction: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    marginLeft: 4,
+  },
+  requestActionText: {
+    color: '#8E8E93',
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  sectionText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   userItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -167,6 +355,16 @@ const styles = StyleSheet.create({
     height: 50,
     borderRadius: 25,
   },
+  presenceDot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: 'white',
+  },
   avatarText: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -1,13 +1,31 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator, FlatList, StyleSheet, Alert, Platform, Button, SafeAreaView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuthContext } from '../contexts/AuthContext';
-import { useChats } from '../services/chat';
+import { useChats, getChatTitle, isSentBy, Chat } from '../services/chat';
+import {
+  useChatSettings,
+  isChatMuted,
+  setChatMuted,
+  setChatPinned,
+  setChatArchived,
+  hideChatForMe,
+  organizeChats,
+} from '../services/chatSettings';
 import { Ionicons } from '@expo/vector-icons';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { ActionSheet, ActionSheetAction } from '@/components/ActionSheet';
+import { getMuteActions } from '@/components/chat/getMuteActions';
+import { AccountRecoveryBanner } from '@/components/AccountRecoveryBanner';
 
 export default function ChatsScreen() {
   const { user, loading: authLoading } = useAuthContext();
-  const { chats, loading: chatsLoading, error } = useChats();
+  const { chats, loading: chatsLoading, error, fromCache } = useChats();
+  const { settings } = useChatSettings();
+  const [showArchived, setShowArchived] = useState(false);
+  const [sheet, setSheet] = useState<{ title: string; actions: ActionSheetAction[] } | null>(null);
+  const { active, archived } = useMemo(() => organizeChats(chats, settings), [chats, settings]);
+  const listChats = showArchived ? archived : active;
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
 
@@ -36,6 +54,103 @@ export default function ChatsScreen() {
     });
   };
 
+  // Run a chat settings update, alerting on failure
+  const updateSettings = (update: Promise<void>) => {
+    update.catch(() => Alert.alert('Error', 'Failed to update chat settings.'));
+  };
+
+  // Unmute a chat, or ask how long to mute it for
+  const toggleMute = (chat: Chat) => {
+    if (isChatMuted(settings[chat.id!])) {
+      updateSettings(setChatMuted(chat.id!, false));
+    } else {
+      setSheet({ title: 'Mute notifications', actions: getMuteActions(chat.id!) });
+    }
+  };
+
+  // Hide a chat for the current user after confirmation
+  const confirmHide = (chat: Chat) => {
+    Alert.alert(
+      'Delete Chat',
+      'This removes the chat from your list only. It will come back if someone sends a new message.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => updateSettings(hideChatForMe(chat.id!)) },
+      ]
+    );
+  };
+
+  // Show pin, mute, archive and delete actions for a chat
+  const handleChatLongPress = (chat: Chat) => {
+    if (!chat.id) return;
+    const chatSettings = settings[chat.id];
+    const isArchived = !!chatSettings?.archived;
+
+    setSheet({
+      title: getOtherParticipantName(chat),
+      actions: [
+        ...(isArchived ? [] : [{
+          label: chatSettings?.pinned ? 'Unpin' : 'Pin to Top',
+          onPress: () => updateSettings(setChatPinned(chat.id!, !chatSettings?.pinned)),
+        }]),
+        {
+          label: isChatMuted(chatSettings) ? 'Unmute Notifications' : 'Mute Notifications…',
+          onPress: () => toggleMute(chat),
+        },
+        {
+          label: isArchived ? 'Unarchive' : 'Archive',
+          onPress: () => updateSettings(setChatArchived(chat.id!, !isArchived)),
+        },
+        { label: 'Delete for Me', destructive: true, onPress: () => confirmHide(chat) },
+      ],
+    });
+  };
+
+  // Swipe right to pin
+  const renderLeftActions = (chat: Chat) => {
+    if (settings[chat.id!]?.archived) return null;
+    const pinned = !!settings[chat.id!]?.pinned;
+    return (
+      <TouchableOpacity
+        className="w-20 bg-blue-500 items-center justify-center"
+        onPress={() => updateSettings(setChatPinned(chat.id!, !pinned))}
+      >
+        <Ionicons name="pin" size={22} color="#FFFFFF" />
+        <Text className="text-xs text-white mt-1">{pinned ? 'Unpin' : 'Pin'}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Swipe left to mute, archive or delete
+  const renderRightActions = (chat: Chat) => {
+    const muted = isChatMuted(settings[chat.id!]);
+    const isArchived = !!settings[chat.id!]?.archived;
+    return (
+      <View className="flex-row">
+        <TouchableOpacity className="w-20 bg-gray-500 items-center justify-center" onPress={() => toggleMute(chat)}>
+          <Ionicons name={muted ? 'notifications' : 'notifications-off'} size={22} color="#FFFFFF" />
+          <Text className="text-xs text-white mt-1">{muted ? 'Unmute' : 'Mute'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="w-20 bg-amber-500 items-center justify-center"
+          onPress={() => updateSettings(setChatArchived(chat.id!, !isArchived))}
+        >
+          <Ionicons name="archive" size={22} color="#FFFFFF" />
+          <Text className="text-xs text-white mt-1">{isArchived ? 'Unarchive' : 'Archive'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity className="w-20 bg-red-500 items-center justify-center" onPress={() => confirmHide(chat)}>
+          <Ionicons name="trash" size={22} color="#FFFFFF" />
+          <Text className="text-xs text-white mt-1">Delete</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Navigate to message search
+  const navigateToSearch = () => {
+    router.push('/search');
+  };
+
   // Navigate to new chat screen
   const navigateToNewChat = () => {
     router.push('/new-chat');
@@ -68,16 +183,10 @@ export default function ChatsScreen() {
     }
   };
 
-  // Get other participant's name
-  const getOtherParticipantName = (chat: any) => {
+  // Get the chat's display name (group name or other participant's name)
+  const getOtherParticipantName = (chat: Chat) => {
     if (!user || !chat.participantNames) return 'Unknown';
-    
-    const otherParticipantId = chat.participants.find((id: string) => id !== user.uid);
-    if (otherParticipantId) {
-      return chat.participantNames[otherParticipantId] || `User-${otherParticipantId.substring(0, 5)}`;
-    }
-    
-    return 'Chat';
+    return getChatTitle(chat, user.uid);
   };
 
   if (authLoading || chatsLoading) {
@@ -97,19 +206,32 @@ export default function ChatsScreen() {
           {user && (
             <Text className="text-sm text-gray-500 dark:text-gray-400">
               {user.displayName || `User-${user.uid.substring(0, 5)}`}
+              {fromCache && ' · Updating…'}
             </Text>
           )}
         </View>
-        {/* New Chat Button */}
-        <TouchableOpacity
-          style={styles.iconButton}
-          onPress={navigateToNewChat}
-          activeOpacity={0.6}
-        >
-          <Ionicons name="add-circle-outline" size={28} color="#007AFF" />
-        </TouchableOpacity>
+        <View className="flex-row">
+          {/* Search Button */}
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={navigateToSearch}
+            activeOpacity={0.6}
+          >
+            <Ionicons name="search-outline" size={26} color="#007AFF" />
+          </TouchableOpacity>
+          {/* New Chat Button */}
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={navigateToNewChat}
+            activeOpacity={0.6}
+          >
+            <Ionicons name="add-circle-outline" size={28} color="#007AFF" />
+          </TouchableOpacity>
+        </View>
       </View>
 
+      <AccountRecoveryBanner />
+
       {/* Chat List */}
       {error ? (
         <View className="flex-1 items-center justify-center p-4">
@@ -121,7 +243,7 @@ export default function ChatsScreen() {
             <Text className="text-white">Retry</Text>
           </TouchableOpacity>
         </View>
-      ) : chats.length === 0 ? (
+      ) : active.length === 0 && archived.length === 0 ? (
         <View className="flex-1 items-center justify-center p-4">
           <Text className="text-gray-500 dark:text-gray-400 text-center mb-6">
             No chats yet. Start a new conversation!
@@ -135,43 +257,113 @@ export default function ChatsScreen() {
         </View>
       ) : (
         <FlatList
-          data={chats}
+          data={listChats}
           keyExtractor={(item) => item.id || ''}
+          ListHeaderComponent={
+            showArchived ? (
+              <TouchableOpacity
+                className="p-4 flex-row items-center border-b border-gray-200 dark:border-gray-800"
+                onPress={() => setShowArchived(false)}
+              >
+                <Ionicons name="chevron-back" size={18} color="#3B82F6" />
+                <Text className="ml-2 text-blue-500 font-semibold">Archived Chats</Text>
+              </TouchableOpacity>
+            ) : archived.length > 0 ? (
+              <TouchableOpacity
+                className="p-4 flex-row items-center border-b border-gray-200 dark:border-gray-800"
+                onPress={() => setShowArchived(true)}
+              >
+                <Ionicons name="archive-outline" size={18} color="#6B7280" />
+                <Text className="flex-1 ml-2 text-gray-800 dark:text-white font-semibold">Archived</Text>
+                <Text className="text-gray-500 dark:text-gray-400">{archived.length}</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text className="p-4 text-center text-gray-500 dark:text-gray-400">
+              {showArchived ? 'No archived chats' : 'All your chats are archived'}
+            </Text>
+          }
           renderItem={({ item }) => (
-            <TouchableOpacity
-              className="p-4 border-b border-gray-200 dark:border-gray-800"
-              onPress={() => navigateToChat(item.id || '')}
+            <ReanimatedSwipeable
+              renderLeftActions={() => renderLeftActions(item)}
+              renderRightActions={() => renderRightActions(item)}
+              overshootLeft={false}
+              overshootRight={false}
             >
-              <View className="flex-row justify-between">
-                <Text className="text-lg font-semibold text-gray-800 dark:text-white">
-                  {getOtherParticipantName(item)}
-                </Text>
+              <TouchableOpacity
+                className="p-4 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900"
+                onPress={() => navigateToChat(item.id || '')}
+                onLongPress={() => handleChatLongPress(item)}
+              >
+                <View className="flex-row justify-between">
+                  <View className="flex-row items-center flex-1 mr-2">
+                    {item.isGroup && (
+                      <Ionicons name="people" size={16} color="#6B7280" style={{ marginRight: 6 }} />
+                    )}
+                    <Text
+                      className={`text-lg text-gray-800 dark:text-white ${item.unreadCount ? 'font-bold' : 'font-semibold'}`}
+                      numberOfLines={1}
+                    >
+                      {getOtherParticipantName(item)}
+                    </Text>
+                    {isChatMuted(settings[item.id || '']) && (
+                      <Ionicons name="notifications-off" size={14} color="#9CA3AF" style={{ marginLeft: 6 }} />
+                    )}
+                    {settings[item.id || '']?.pinned && (
+                      <Ionicons name="pin" size={14} color="#9CA3AF" style={{ marginLeft: 6 }} />
+                    )}
+                  </View>
+                  {item.lastMessage && (
+                    <Text className={`text-xs ${item.unreadCount ? 'text-blue-500 font-bold' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {formatDate(item.lastMessage.createdAt)}
+                    </Text>
+                  )}
+                </View>
                 {item.lastMessage && (
-                  <Text className="text-xs text-gray-500 dark:text-gray-400">
-                    {formatDate(item.lastMessage.createdAt)}
-                  </Text>
+                  <View className="flex-row items-center mt-1">
+                    <Text 
+                      className={`flex-1 ${item.unreadCount ? 'text-gray-800 dark:text-white font-semibold' : 'text-gray-500 dark:text-gray-400'}`}
+                      numberOfLines={1}
+                    >
+                      {item.lastMessage.senderId === 'system' 
+                        ? <Text className="italic">{item.lastMessage.text}</Text>
+                        : isSentBy(item, item.lastMessage.senderId, user?.uid)
+                          ? `You: ${item.lastMessage.text}`
+                          : item.isGroup
+                            ? `${item.participantNames[item.lastMessage.senderId] || 'Someone'}: ${item.lastMessage.text}`
+                            : item.lastMessage.text
+                      }
+                    </Text>
+                    {!!item.unreadCount && (
+                      <View
+                        className={`ml-2 min-w-[20px] h-5 px-1.5 rounded-full items-center justify-center ${
+                          isChatMuted(settings[item.id || '']) ? 'bg-gray-400' : 'bg-blue-500'
+                        }`}
+                      >
+                        <Text className="text-xs text-white font-bold">
+                          {item.unreadCount > 99 ? '99+' : item.unreadCount}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
                 )}
-              </View>
-              {item.lastMessage && (
-                <Text 
-                  className="text-gray-500 dark:text-gray-400 mt-1"
-                  numberOfLines={1}
-                >
-                  {item.lastMessage.senderId === 'system' 
-                    ? <Text className="italic">{item.lastMessage.text}</Text>
-                    : item.lastMessage.senderId === user?.uid
-                      ? `You: ${item.lastMessage.text}`
-                      : item.lastMessage.text
-                  }
-                </Text>
-              )}
-            </TouchableOpacity>
+              </TouchableOpacity>
+            </ReanimatedSwipeable>
           )}
           refreshing={refreshing}
           onRefresh={handleRefresh}
         />
       )}
 
+      {/* Chat actions */}
+      <ActionSheet
+        visible={!!sheet}
+        title={sheet?.title}
+        actions={sheet?.actions || []}
+        onClose={() => setSheet(null)}
+      />
+
       {/* Floating Action Button for New Chat */}
       {chats.length > 0 && (
         <TouchableOpacity
@@ -4,14 +4,21 @@ import { useRouter } from 'expo-router';
 import { useAuthContext } from '../contexts/AuthContext';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
+import { claimUsername, normalizeUsername, useMyUsername, useUsernameAvailability } from '../services/usernames';
+import { UsernameAvailability } from '@/components/UsernameAvailability';
 
 export default function SettingsScreen() {
-  const { user, signOut, updateDisplayName, updateProfilePhoto, loading } = useAuthContext();
+  const { user, isAnonymous, signOut, updateDisplayName, updateProfilePhoto, loading } = useAuthContext();
   const router = useRouter();
-  const [newUsername, setNewUsername] = useState('');
+  const [newDisplayName, setNewDisplayName] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
+  const [newUsername, setNewUsername] = useState('');
+  const [isEditingUsername, setIsEditingUsername] = useState(false);
+  const [isClaimingUsername, setIsClaimingUsername] = useState(false);
+  const username = useMyUsername();
+  const availability = useUsernameAvailability(isEditingUsername ? newUsername : '');
 
   // Redirect to login if not signed in
   useEffect(() => {
@@ -24,7 +31,9 @@ export default function SettingsScreen() {
     try {
       Alert.alert(
         'Sign Out',
-        'Are you sure you want to sign out?',
+        isAnonymous
+          ? 'You are using a guest account. Once you sign out you can\'t sign back in, and your chats and contacts will be lost. Secure your account first to keep them.'
+          : 'Are you sure you want to sign out?',
         [
           {
             text: 'Cancel',
@@ -58,36 +67,62 @@ export default function SettingsScreen() {
     router.replace('/login');
   };
 
-  // Handle username update
-  const handleUpdateUsername = async () => {
-    if (!newUsername.trim()) {
-      Alert.alert('Error', 'Username cannot be empty');
+  // Handle display name update
+  const handleUpdateDisplayName = async () => {
+    if (!newDisplayName.trim()) {
+      Alert.alert('Error', 'Display name cannot be empty');
       return;
     }
 
     try {
       setIsUpdating(true);
-      await updateDisplayName(newUsername.trim());
+      await updateDisplayName(newDisplayName.trim());
       setIsEditing(false);
-      setNewUsername('');
-      Alert.alert('Success', 'Username updated successfully');
+      setNewDisplayName('');
+      Alert.alert('Success', 'Display name updated successfully');
     } catch (error) {
-      console.error('Error updating username:', error);
-      Alert.alert('Error', 'Failed to update username. Please try again.');
+      console.error('Error updating display name:', error);
+      Alert.alert('Error', 'Failed to update display name. Please try again.');
     } finally {
       setIsUpdating(false);
     }
   };
 
+  // Start editing display name
+  const startEditingDisplayName = () => {
+    setNewDisplayName(user?.displayName || '');
+    setIsEditing(true);
+  };
+
+  // Cancel editing display name
+  const cancelEditingDisplayName = () => {
+    setIsEditing(false);
+    setNewDisplayName('');
+  };
+
+  // Claim the new username, releasing the old one
+  const handleUpdateUsername = async () => {
+    try {
+      setIsClaimingUsername(true);
+      await claimUsername(newUsername);
+      setIsEditingUsername(false);
+      setNewUsername('');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to update username. Please try again.');
+    } finally {
+      setIsClaimingUsername(false);
+    }
+  };
+
   // Start editing username
   const startEditingUsername = () => {
-    setNewUsername(user?.displayName || '');
-    setIsEditing(true);
+    setNewUsername(username || '');
+    setIsEditingUsername(true);
   };
 
   // Cancel editing username
   const cancelEditingUsername = () => {
-    setIsEditing(false);
+    setIsEditingUsername(false);
     setNewUsername('');
   };
 
@@ -177,6 +212,9 @@ export default function SettingsScreen() {
           <Text style={styles.userName}>
             {user?.displayName || 'Anonymous User'}
           </Text>
+          {!!username && (
+            <Text style={styles.userId}>@{username}</Text>
+          )}
           <Text style={styles.userId}>
             ID: {user?.uid || 'Not signed in'}
           </Text>
@@ -190,9 +228,9 @@ export default function SettingsScreen() {
           <View style={styles.editUsernameContainer}>
             <TextInput
               style={styles.usernameInput}
-              value={newUsername}
-              onChangeText={setNewUsername}
-              placeholder="Enter new username"
+              value={newDisplayName}
+              onChangeText={setNewDisplayName}
+              placeholder="Enter new display name"
               autoCapitalize="none"
               autoCorrect={false}
               maxLength={30}
@@ -200,11 +238,63 @@ export default function SettingsScreen() {
             <View style={styles.editButtonsRow}>
               {isUpdating ? (
                 <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <>
+                  <TouchableOpacity 
+                    style={[styles.editButton, styles.saveButton]} 
+                    onPress={handleUpdateDisplayName}
+                  >
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={[styles.editButton, styles.cancelButton]} 
+                    onPress={cancelEditingDisplayName}
+                  >
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity 
+            style={styles.settingItem} 
+            onPress={startEditingDisplayName}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingContent}>
+              <Ionicons name="person-outline" size={24} color="#007AFF" />
+              <Text style={styles.settingText}>Change Display Name</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+          </TouchableOpacity>
+        )}
+
+        {isEditingUsername ? (
+          <View style={styles.editUsernameContainer}>
+            <TextInput
+              style={styles.usernameInput}
+              value={newUsername}
+              onChangeText={setNewUsername}
+              placeholder="Choose a username"
+              autoCapitalize="none"
+              autoCorrect={false}
+              maxLength={21}
+            />
+            <UsernameAvailability
+              status={availability.status}
+              message={availability.message}
+              isCurrent={!!username && normalizeUsername(newUsername) === normalizeUsername(username)}
+            />
+            <View style={styles.editButtonsRow}>
+              {isClaimingUsername ? (
+                <ActivityIndicator size="small" color="#007AFF" />
               ) : (
                 <>
                   <TouchableOpacity 
                     style={[styles.editButton, styles.saveButton]} 
                     onPress={handleUpdateUsername}
+                    disabled={availability.status !== 'available'}
                   >
                     <Text style={styles.saveButtonText}>Save</Text>
                   </TouchableOpacity>
@@ -225,8 +315,8 @@ export default function SettingsScreen() {
             activeOpacity={0.7}
           >
             <View style={styles.settingContent}>
-              <Ionicons name="person-outline" size={24} color="#007AFF" />
-              <Text style={styles.settingText}>Change Username</Text>
+              <Ionicons name="at-outline" size={24} color="#007AFF" />
+              <Text style={styles.settingText}>{username ? `Username: @${username}` : 'Choose a Username'}</Text>
             </View>
             <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
           </TouchableOpacity>
@@ -235,6 +325,36 @@ export default function SettingsScreen() {
       
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Account</Text>
+
+        <TouchableOpacity 
+          style={styles.settingItem} 
+          onPress={() => router.push('/secure-account')}
+          activeOpacity={0.7}
+        >
+          <View style={styles.settingContent}>
+            <Ionicons
+              name={isAnonymous ? 'shield-outline' : 'shield-checkmark-outline'}
+              size={24}
+              color={isAnonymous ? '#FF9500' : '#34C759'}
+            />
+            <Text style={styles.settingText}>
+              {isAnonymous ? 'Secure Your Account' : `Signed in as ${user.email}`}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={styles.settingItem} 
+          onPress={() => router.push('/devices')}
+          activeOpacity={0.7}
+        >
+          <View style={styles.settingContent}>
+            <Ionicons name="phone-portrait-outline" size={24} color="#007AFF" />
+            <Text style={styles.settingText}>Devices</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
         
         {/* iOS-specific sign out button */}
         {Platform.OS === 'ios' ? (
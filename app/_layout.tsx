@@ -6,8 +6,11 @@ import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import 'react-native-reanimated';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { AuthProvider } from './contexts/AuthContext';
 
+import { ChatNotifications } from '@/components/ChatNotifications';
+import { ConnectivityBanner } from '@/components/ConnectivityBanner';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
@@ -30,20 +33,29 @@ export default function RootLayout() {
   }
 
   return (
-    <AuthProvider>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack screenOptions={{
-          headerBackTitle: "Back", // This will replace "(tabs)" with "Back" on iOS
-        }}>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="debug" options={{ title: "Debug" }} />
-          <Stack.Screen name="new-chat" options={{ title: "New Chat" }} />
-          <Stack.Screen name="chat/[id]" options={{ title: "Chat" }} />
-          <Stack.Screen name="+not-found" />
-        </Stack>
-        <StatusBar style="auto" />
-      </ThemeProvider>
-    </AuthProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <AuthProvider>
+        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+          <Stack screenOptions={{
+            headerBackTitle: "Back", // This will replace "(tabs)" with "Back" on iOS
+          }}>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="login" options={{ headerShown: false }} />
+            <Stack.Screen name="debug" options={{ title: "Debug" }} />
+            <Stack.Screen name="new-chat" options={{ title: "New Chat" }} />
+            <Stack.Screen name="search" options={{ title: "Search" }} />
+            <Stack.Screen name="add-contact" options={{ title: "Add Contact" }} />
+            <Stack.Screen name="secure-account" options={{ title: "Secure Account" }} />
+            <Stack.Screen name="devices" options={{ title: "Devices" }} />
+            <Stack.Screen name="chat/[id]" options={{ title: "Chat" }} />
+            <Stack.Screen name="group/[id]" options={{ title: "Group Info" }} />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+          <ConnectivityBanner />
+          <ChatNotifications />
+          <StatusBar style="auto" />
+        </ThemeProvider>
+      </AuthProvider>
+    </GestureHandlerRootView>
   );
 }
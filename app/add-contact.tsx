@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator, SafeAreaView, Alert, Share } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthContext } from './contexts/AuthContext';
+import { getShareCode, resetShareCode, findUserByShareCode, sendFriendRequest } from './services/contacts';
+import { findUserByUsername } from './services/usernames';
+
+export default function AddContactScreen() {
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [searching, setSearching] = useState(false);
+  const { user, loading: authLoading } = useAuthContext();
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      console.log('User not authenticated, redirecting to login');
+      router.replace('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Load (or create) the current user's share code
+  useEffect(() => {
+    if (!user) return;
+    getShareCode()
+      .then(setShareCode)
+      .catch(() => Alert.alert('Error', 'Failed to load your share code.'));
+  }, [user]);
+
+  // Share the code through the system share sheet
+  const handleShare = () => {
+    if (!shareCode) return;
+    Share.share({ message: `Add me on VeryFomo with my code: ${shareCode}` });
+  };
+
+  // Replace the code so the old one stops working
+  const handleResetCode = () => {
+    Alert.alert(
+      'Reset Share Code',
+      'Your current code will stop working. People you already added are not affected.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () => {
+            resetShareCode()
+              .then(setShareCode)
+              .catch(() => Alert.alert('Error', 'Failed to reset your share code.'));
+          },
+        },
+      ]
+    );
+  };
+
+  // Send a contact request to the person a code belongs to
+  const sendRequest = async (uid: string, displayName: string) => {
+    try {
+      const result = await sendFriendRequest(uid, displayName);
+      setCodeInput('');
+      Alert.alert(
+        result === 'accepted' ? 'Contact Added' : 'Request Sent',
+        result === 'accepted'
+          ? `${displayName} had already sent you a request, so you are now contacts.`
+          : `${displayName} will appear in your contacts once they accept.`
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to send request. Please try again.');
+    }
+  };
+
+  // Look up a username or share code and confirm before sending a request
+  const handleFindCode = async () => {
+    try {
+      setSearching(true);
+      const byShareCode = codeInput.trim().startsWith('@') ? null : await findUserByShareCode(codeInput);
+      const byHandle = byShareCode ? null : await findUserByUsername(codeInput);
+      const owner = byShareCode || (byHandle && { uid: byHandle.uid, displayName: `@${byHandle.username}` });
+
+      if (!owner) {
+        Alert.alert('Not Found', 'No one has this username or share code. Check it and try again.');
+      } else if (owner.uid === user?.uid) {
+        Alert.alert('That\'s You', 'You can\'t add yourself.');
+      } else {
+        Alert.alert('Add Contact', `Send a contact request to ${owner.displayName}?`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Send', onPress: () => sendRequest(owner.uid, owner.displayName) },
+        ]);
+      }
+    } catch (error) {
+      console.error('Error finding user:', error);
+      Alert.alert('Error', 'Failed to look up the code. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#0000ff" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+      {/* The current user's code */}
+      <View className="p-6 items-center border-b border-gray-200 dark:border-gray-800">
+        <Text className="text-sm text-gray-500 dark:text-gray-400 mb-2">Your share code</Text>
+        {shareCode ? (
+          <Text className="text-3xl font-bold tracking-widest text-gray-800 dark:text-white" selectable>
+            {shareCode}
+          </Text>
+        ) : (
+          <ActivityIndicator size="small" color="#0000ff" />
+        )}
+        <View className="flex-row mt-4">
+          <TouchableOpacity
+            className="flex-row items-center bg-blue-500 px-4 py-2 rounded-lg mr-2"
+            onPress={handleShare}
+            disabled={!shareCode}
+          >
+            <Ionicons name="share-outline" size={18} color="#FFFFFF" />
+            <Text className="text-white font-semibold ml-2">Share</Text>
+          </TouchableOpacity>
+          <TouchableOpacity className="px-4 py-2" onPress={handleResetCode} disabled={!shareCode}>
+            <Text className="text-red-500">Reset</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Someone else's code */}
+      <View className="p-4">
+        <Text className="text-sm text-gray-500 dark:text-gray-400 mb-2">Add someone by their username or share code</Text>
+        <View className="flex-row items-center">
+          <TextInput
+            className="flex-1 bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white mr-2"
+            placeholder="@username or share code"
+            placeholderTextColor="#9CA3AF"
+            value={codeInput}
+            onChangeText={setCodeInput}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            onSubmitEditing={handleFindCode}
+          />
+          <TouchableOpacity
+            className={`p-3 rounded-lg ${codeInput.trim() ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-700'}`}
+            onPress={handleFindCode}
+            disabled={!codeInput.trim() || searching}
+          >
+            {searching ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text className="text-white font-bold">Find</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -1,34 +1,100 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, FlatList, KeyboardAvoidingView, Platform, ActivityIndicator, Alert, SafeAreaView } from 'react-native';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, KeyboardAvoidingView, Platform, ActivityIndicator, SafeAreaView, Image, Alert } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useAuthContext } from '../contexts/AuthContext';
-import { useMessages, sendMessage } from '../services/chat';
-import { doc, getDoc } from 'firebase/firestore';
-import { firestore } from '../firebase';
+import {
+  useMessages,
+  markChatAsRead,
+  getMessageReadStatus,
+  getChatTitle as getTitleForChat,
+  isSentBy,
+  canModifyMessage,
+  createMessageReply,
+  getReactionSummary,
+  toggleReaction,
+  ReactionSummary,
+  editMessage,
+  deleteMessage,
+  DELETED_MESSAGE_TEXT,
+  Message,
+  Chat,
+} from '../services/chat';
+import { useOutbox, OutgoingMessageStatus } from '../services/outbox';
+import { pickImageAttachment, LocalAttachment } from '../services/attachments';
+import { usePresence, useTypingIndicator, useNow, getPresenceLabel, formatTypingLabel } from '../services/presence';
+import { setActiveChat } from '../services/notifications';
+import { useChatSettings, isChatMuted, setChatMuted } from '../services/chatSettings';
+import { useBlockedUsers, unblockUser } from '../services/moderation';
+import { onSnapshot } from 'firebase/firestore';
+import { useIsFocused } from '@react-navigation/native';
+import { chatDocRef } from '../models/collections';
+import { readDoc } from '../models/schema';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { ImageViewer } from '@/components/chat/ImageViewer';
+import { MessageAttachments } from '@/components/chat/MessageAttachments';
+import { EditHistoryModal } from '@/components/chat/EditHistoryModal';
+import { MessageActionSheet, MessageAction } from '@/components/chat/MessageActionSheet';
+import { ReactionDetailsSheet } from '@/components/chat/ReactionDetailsSheet';
+import { getMuteActions } from '@/components/chat/getMuteActions';
+import { ActionSheet, ActionSheetAction } from '@/components/ActionSheet';
+import { getReportActions } from '@/components/getReportActions';
+import { confirmBlockUser } from '@/components/confirmBlockUser';
 
-interface ChatDetails {
-  id: string;
-  participants: string[];
-  participantNames: Record<string, string>;
-}
+// Number of messages loaded per page of history
+const MESSAGES_PAGE_SIZE = 30;
+
+// A message from Firestore, or one still waiting in the outbox
+type DisplayMessage = Message & {
+  status?: OutgoingMessageStatus;
+  // Picked files shown from the device until their upload finishes
+  localAttachments?: LocalAttachment[];
+  progress?: number;
+};
 
 export default function ChatScreen() {
-  const params = useLocalSearchParams<{ id: string }>();
+  const params = useLocalSearchParams<{ id: string; messageId?: string }>();
   const id = params.id;
   console.log('Chat screen received params:', params);
   console.log('Chat ID from params:', id);
   
   const { user, loading: authLoading } = useAuthContext();
-  const { messages, loading: messagesLoading } = useMessages(id);
+  const {
+    messages,
+    loading: messagesLoading,
+    loadOlder,
+    loadUntilMessage,
+    hasMore,
+    loadingOlder,
+  } = useMessages(id, { pageSize: MESSAGES_PAGE_SIZE });
+  const { outgoing, send, retry } = useOutbox(id);
   const [messageText, setMessageText] = useState('');
-  const [sending, setSending] = useState(false);
-  const [chatDetails, setChatDetails] = useState<ChatDetails | null>(null);
+  const [chatDetails, setChatDetails] = useState<Chat | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [viewerUri, setViewerUri] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<DisplayMessage | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<DisplayMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<DisplayMessage | null>(null);
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<DisplayMessage | null>(null);
+  const [reactionDetails, setReactionDetails] = useState<ReactionSummary[] | null>(null);
+  const [sheet, setSheet] = useState<{ title: string; actions: ActionSheetAction[] } | null>(null);
   const router = useRouter();
   const flatListRef = useRef<FlatList>(null);
   const insets = useSafeAreaInsets();
+  const isFocused = useIsFocused();
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(id);
+  const otherUserId = chatDetails && !chatDetails.isGroup
+    ? chatDetails.participants.find(uid => uid !== user?.uid)
+    : null;
+  const otherPresence = usePresence(otherUserId);
+  const now = useNow();
+  const { settings: chatSettings } = useChatSettings();
+  const muted = isChatMuted(chatSettings[id]);
+  const { blockedIds } = useBlockedUsers();
+  const otherUserBlocked = !!otherUserId && blockedIds.includes(otherUserId);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -38,73 +104,298 @@ export default function ChatScreen() {
     }
   }, [user, authLoading, router]);
 
-  // Fetch chat details
+  // Subscribe to chat details so group name and membership changes show up live
   useEffect(() => {
-    const fetchChatDetails = async () => {
-      try {
-        if (!id) {
-          console.error('No chat ID provided in params');
-          setError('No chat ID provided');
-          setLoading(false);
-          return;
-        }
-        
-        if (!user) {
-          console.error('User not authenticated');
-          setLoading(false);
-          return;
-        }
-        
-        console.log('Fetching chat details for ID:', id);
-        const chatRef = doc(firestore, 'chats', id);
-        const chatDoc = await getDoc(chatRef);
-        
+    if (!id) {
+      console.error('No chat ID provided in params');
+      setError('No chat ID provided');
+      setLoading(false);
+      return () => {};
+    }
+
+    if (!user) {
+      setLoading(false);
+      return () => {};
+    }
+
+    console.log('Subscribing to chat details for ID:', id);
+    const unsubscribe = onSnapshot(
+      chatDocRef(id),
+      (chatDoc) => {
         if (chatDoc.exists()) {
-          console.log('Chat document exists:', chatDoc.id);
-          const data = chatDoc.data();
-          console.log('Chat data:', data);
-          setChatDetails({
-            id: chatDoc.id,
-            ...data,
-          } as ChatDetails);
+          const chat = readDoc(chatDoc);
+          setChatDetails(chat || null);
+          setError(chat ? null : 'Error loading chat');
         } else {
           console.error('Chat document does not exist for ID:', id);
           setError('Chat not found');
         }
-      } catch (error) {
-        console.error('Error fetching chat details:', error);
+        setLoading(false);
+      },
+      (err) => {
+        // Members removed from a group lose read access to the chat
+        console.error('Error fetching chat details:', err);
         setError('Error loading chat');
-      } finally {
         setLoading(false);
       }
-    };
+    );
 
-    if (user && id) {
-      fetchChatDetails();
-    }
+    return () => unsubscribe();
   }, [id, user]);
 
-  // Handle sending a message
-  const handleSendMessage = async () => {
-    if (!messageText.trim() || !id || !user) return;
-    
+  // Don't raise notifications for this chat while it is on screen
+  useEffect(() => {
+    if (!isFocused || !id) return () => {};
+    setActiveChat(id);
+    return () => setActiveChat(null);
+  }, [isFocused, id]);
+
+  // Mark the chat as read while it is on screen and has unread messages
+  const newestMessage = messages[0];
+  useEffect(() => {
+    if (!isFocused || !id || !user || !chatDetails) return;
+
+    const lastReadAt = chatDetails.lastReadAt?.[user.uid];
+    const hasUnreadCount = (chatDetails.unreadCounts?.[user.uid] || 0) > 0;
+    const hasNewerMessage = !!newestMessage &&
+      newestMessage.senderId !== user.uid &&
+      (!lastReadAt || new Date(newestMessage.createdAt).getTime() > lastReadAt.getTime());
+
+    if (hasUnreadCount || hasNewerMessage) {
+      markChatAsRead(id);
+    }
+  }, [isFocused, id, user, chatDetails, newestMessage]);
+
+  // Merge queued messages into the list until Firestore has them; the client-generated
+  // ID makes the queued copy and the Firestore copy the same message
+  const displayMessages = useMemo<DisplayMessage[]>(() => {
+    const outgoingById = new Map(outgoing.map(m => [m.id, m]));
+    const delivered: DisplayMessage[] = messages.map(message => {
+      const queued = message.id ? outgoingById.get(message.id) : undefined;
+      return queued ? { ...message, status: queued.status } : message;
+    });
+    const deliveredIds = new Set(messages.map(m => m.id));
+    const queuedOnly: DisplayMessage[] = outgoing
+      .filter(m => !deliveredIds.has(m.id))
+      .map(m => ({
+        id: m.id,
+        text: m.text,
+        createdAt: new Date(m.createdAt),
+        senderId: m.senderId,
+        senderName: m.senderName,
+        chatId: m.chatId,
+        attachments: m.attachments,
+        replyTo: m.replyTo,
+        localAttachments: m.attachments ? undefined : m.localAttachments,
+        progress: m.progress,
+        status: m.status,
+      }))
+      .reverse();
+
+    return [...queuedOnly, ...delivered];
+  }, [messages, outgoing]);
+
+  // Loaded messages by ID, used to show quotes of deleted messages as deleted
+  const messagesById = useMemo(() => {
+    return new Map(displayMessages.map(m => [m.id, m]));
+  }, [displayMessages]);
+
+  // Scroll to a quoted message once it is in the list, and highlight it briefly
+  useEffect(() => {
+    if (!jumpTargetId) return;
+
+    const index = displayMessages.findIndex(m => m.id === jumpTargetId);
+    if (index === -1) return;
+
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [jumpTargetId, displayMessages]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 1500);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  // Jump to the original of a quoted message, loading older history if needed
+  const jumpToMessage = async (messageId: string) => {
+    if (!displayMessages.some(m => m.id === messageId)) {
+      const found = await loadUntilMessage(messageId);
+      if (!found) {
+        Alert.alert('Message unavailable', 'The original message could not be found.');
+        return;
+      }
+    }
+    setJumpTargetId(messageId);
+  };
+
+  // Opened from search: jump to the message once the first page has loaded
+  const initialJumpRef = useRef<string | null>(null);
+  useEffect(() => {
+    const messageId = params.messageId;
+    if (!messageId || messagesLoading || initialJumpRef.current === messageId) return;
+
+    initialJumpRef.current = messageId;
+    loadUntilMessage(messageId).then((found) => {
+      if (found) setJumpTargetId(messageId);
+    });
+  }, [params.messageId, messagesLoading, loadUntilMessage]);
+
+  // Quote of the message being replied to, if any
+  const getReplyOption = () => {
+    return replyingTo ? createMessageReply(replyingTo) : undefined;
+  };
+
+  // Handle sending a message: it shows up at once and is delivered in the background
+  const handleSendMessage = () => {
+    const text = messageText.trim();
+    if (!text || !id || !user) return;
+
+    if (editingMessage) {
+      handleSaveEdit(editingMessage, text);
+      return;
+    }
+
+    stopTyping();
+    const replyTo = getReplyOption();
+    setMessageText('');
+    setReplyingTo(null);
+    send(text, { replyTo }).catch((error) => {
+      console.error('Error queueing message:', error);
+      setMessageText(text);
+    });
+
+    // Scroll to the bottom after sending
+    setTimeout(() => {
+      flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
+    }, 100);
+  };
+
+  // Pick an image and send it, using any typed text as its caption
+  const handleAttachImage = async () => {
+    if (!id || !user) return;
+
     try {
-      setSending(true);
-      await sendMessage(id, messageText.trim());
+      const attachment = await pickImageAttachment();
+      if (!attachment) return;
+
+      const text = messageText.trim();
+      const replyTo = getReplyOption();
       setMessageText('');
-      
-      // Scroll to the bottom after sending
+      setReplyingTo(null);
+      await send(text, { attachments: [attachment], replyTo });
+
       setTimeout(() => {
-        flatListRef.current?.scrollToIndex({ index: 0, animated: true });
+        flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
       }, 100);
-    } catch (error) {
-      console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to send message. Please try again.');
-    } finally {
-      setSending(false);
+    } catch (error: any) {
+      console.error('Error attaching image:', error);
+      Alert.alert('Error', error?.message || 'Failed to attach image.');
+    }
+  };
+
+  // Save the edited text of a message
+  const handleSaveEdit = async (message: DisplayMessage, text: string) => {
+    try {
+      await editMessage(message.id!, text);
+      setEditingMessage(null);
+      setMessageText('');
+    } catch (error: any) {
+      console.error('Error editing message:', error);
+      Alert.alert('Error', error?.message || 'Failed to edit message.');
     }
   };
 
+  // Stop editing and clear the input
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessageText('');
+  };
+
+  // Add or remove a reaction, keeping the message list as the source of truth
+  const handleToggleReaction = (message: DisplayMessage, emoji: string) => {
+    toggleReaction(message, emoji).catch((error: any) => {
+      console.error('Error updating reaction:', error);
+      Alert.alert('Error', error?.message || 'Failed to update reaction.');
+    });
+  };
+
+  // Actions available for a message in the long-press sheet
+  const getMessageActions = (message: DisplayMessage): MessageAction[] => {
+    const actions: MessageAction[] = [];
+
+    if (!message.deleted) {
+      actions.push({
+        label: 'Reply',
+        onPress: () => {
+          setEditingMessage(null);
+          setReplyingTo(message);
+        },
+      });
+    }
+
+    if (canModifyMessage(message, user?.uid)) {
+      if (message.text) {
+        actions.push({
+          label: 'Edit',
+          onPress: () => {
+            setReplyingTo(null);
+            setEditingMessage(message);
+            setMessageText(message.text);
+          },
+        });
+      }
+      actions.push({
+        label: 'Delete for Everyone',
+        destructive: true,
+        onPress: () => {
+          deleteMessage(message.id!).catch((error: any) => {
+            console.error('Error deleting message:', error);
+            Alert.alert('Error', error?.message || 'Failed to delete message.');
+          });
+        },
+      });
+    }
+
+    if (message.editedAt && !message.deleted) {
+      actions.push({ label: 'View Edit History', onPress: () => setHistoryMessage(message) });
+    }
+
+    if (message.senderId !== user?.uid && !message.deleted) {
+      actions.push({
+        label: 'Report',
+        destructive: true,
+        onPress: () => setSheet({
+          title: 'Why are you reporting this message?',
+          actions: getReportActions({
+            userId: message.senderId,
+            userName: message.senderName,
+            chat: chatDetails,
+            message,
+          }),
+        }),
+      });
+    }
+
+    return actions;
+  };
+
+  // Show the reaction picker and actions for a message that reached the server
+  const handleMessageLongPress = (message: DisplayMessage) => {
+    if (message.status || message.pending || message.deleted) return;
+    setActionMessage(message);
+  };
+
+  // Status line under the current user's own messages
+  const getStatusLabel = (message: DisplayMessage) => {
+    // Messages written offline stay pending in the local cache until the server acknowledges them
+    if (message.status === 'pending' || message.pending) return 'Sending…';
+    if (message.status === 'failed') return 'Failed — tap to retry';
+    if (!chatDetails) return '';
+    return getMessageReadStatus(chatDetails, message) === 'seen' ? 'Seen' : 'Delivered';
+  };
+
   // Format message timestamp
   const formatTime = (date: Date) => {
     return new Date(date).toLocaleTimeString('en-US', {
@@ -122,17 +413,87 @@ export default function ChatScreen() {
     });
   };
 
-  // Get chat title (other participant's name for 1:1 chats)
+  // Get chat title (group name, or other participant's name for 1:1 chats)
   const getChatTitle = () => {
     if (!chatDetails || !user) return 'Chat';
-    
-    // For 1:1 chats, show the other participant's name
-    const otherParticipantId = chatDetails.participants.find(id => id !== user.uid);
-    if (otherParticipantId) {
-      return chatDetails.participantNames[otherParticipantId] || 'Chat';
+    return getTitleForChat(chatDetails, user.uid);
+  };
+
+  // Update the input and report typing to the other participants
+  const handleChangeText = (text: string) => {
+    setMessageText(text);
+    if (editingMessage) return;
+    if (text.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
     }
-    
-    return 'Group Chat';
+  };
+
+  // Line under the chat title: who is typing, else presence or member count
+  const getHeaderSubtitle = () => {
+    if (!chatDetails || !user) return '';
+
+    const typingNames = typingUserIds
+      .filter(uid => chatDetails.participants.includes(uid))
+      .map(uid => chatDetails.participantNames[uid] || `User-${uid.substring(0, 5)}`);
+    if (typingNames.length > 0) {
+      return chatDetails.isGroup ? formatTypingLabel(typingNames) : 'typing…';
+    }
+
+    if (chatDetails.isGroup) {
+      return `${chatDetails.participants.length} members · Tap for group info`;
+    }
+    return otherPresence ? getPresenceLabel(otherPresence, now) : '';
+  };
+
+  // Unmute this chat, or ask how long to mute it for
+  const handleToggleMute = () => {
+    if (!muted) {
+      setSheet({ title: 'Mute notifications', actions: getMuteActions(id) });
+      return;
+    }
+    setChatMuted(id, false).catch(() => {
+      Alert.alert('Error', 'Failed to update notification settings.');
+    });
+  };
+
+  // Unblock the other participant of a 1:1 chat
+  const handleUnblock = () => {
+    if (!otherUserId) return;
+    unblockUser(otherUserId).catch(() => Alert.alert('Error', 'Failed to unblock user.'));
+  };
+
+  // Block and report actions for the other participant of a 1:1 chat
+  const showUserActions = () => {
+    if (!otherUserId || !chatDetails) return;
+    const name = getChatTitle();
+
+    setSheet({
+      title: name,
+      actions: [
+        otherUserBlocked
+          ? { label: `Unblock ${name}`, onPress: handleUnblock }
+          : { label: `Block ${name}`, destructive: true, onPress: () => confirmBlockUser(otherUserId, name) },
+        {
+          label: `Report ${name}`,
+          destructive: true,
+          onPress: () => setSheet({
+            title: `Why are you reporting ${name}?`,
+            actions: getReportActions({ userId: otherUserId, userName: name, chat: chatDetails }),
+          }),
+        },
+      ],
+    });
+  };
+
+  // Open the group info screen
+  const openGroupInfo = () => {
+    if (!chatDetails?.isGroup) return;
+    router.push({
+      pathname: '/group/[id]',
+      params: { id: chatDetails.id }
+    });
   };
 
   // Group messages by date
@@ -206,20 +567,48 @@ export default function ChatScreen() {
             >
               <Text className="text-blue-500">Back</Text>
             </TouchableOpacity>
-            <View className="flex-1">
-              <Text className="text-xl font-bold text-gray-800 dark:text-white">
-                {getChatTitle()}
-              </Text>
-              {user && (
-                <Text className="text-xs text-gray-500 dark:text-gray-400">
-                  Your ID: {user.uid.substring(0, 8)}...
-                </Text>
+            <TouchableOpacity
+              className="flex-1 flex-row items-center"
+              onPress={openGroupInfo}
+              disabled={!chatDetails?.isGroup}
+              activeOpacity={0.7}
+            >
+              {chatDetails?.isGroup && (
+                chatDetails.photoURL ? (
+                  <Image source={{ uri: chatDetails.photoURL }} className="w-9 h-9 rounded-full mr-3" />
+                ) : (
+                  <View className="w-9 h-9 rounded-full mr-3 bg-blue-500 items-center justify-center">
+                    <Text className="text-white font-bold">{getChatTitle()[0]}</Text>
+                  </View>
+                )
               )}
-            </View>
+              <View className="flex-1">
+                <Text className="text-xl font-bold text-gray-800 dark:text-white" numberOfLines={1}>
+                  {getChatTitle()}
+                </Text>
+                {!!getHeaderSubtitle() && (
+                  <Text className="text-xs text-gray-500 dark:text-gray-400" numberOfLines={1}>
+                    {getHeaderSubtitle()}
+                  </Text>
+                )}
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity className="ml-2 p-1" onPress={handleToggleMute}>
+              <Ionicons
+                name={muted ? 'notifications-off-outline' : 'notifications-outline'}
+                size={22}
+                color={muted ? '#9CA3AF' : '#3B82F6'}
+              />
+            </TouchableOpacity>
+            {!!otherUserId && (
+              <TouchableOpacity className="ml-2 p-1" onPress={showUserActions}>
+                <Ionicons name="ellipsis-horizontal" size={22} color="#3B82F6" />
+              </TouchableOpacity>
+            )}
           </View>
           
           {/* Messages */}
-          {messages.length === 0 ? (
+          {displayMessages.length === 0 ? (
             <View className="flex-1 items-center justify-center p-4">
               <Text className="text-gray-500 dark:text-gray-400 text-center">
                 No messages yet. Start the conversation!
@@ -229,14 +618,53 @@ export default function ChatScreen() {
             <FlatList
               ref={flatListRef}
               className="flex-1 p-4"
-              data={messages}
+              data={displayMessages}
               inverted
+              onEndReached={() => {
+                // The list is inverted, so the end is the oldest loaded message
+                if (hasMore && !loadingOlder) loadOlder();
+              }}
+              onEndReachedThreshold={0.3}
+              ListFooterComponent={
+                loadingOlder ? (
+                  <View className="py-4 items-center">
+                    <ActivityIndicator size="small" color="#0000ff" />
+                  </View>
+                ) : !hasMore ? (
+                  <Text className="py-4 text-center text-xs text-gray-400 dark:text-gray-500">
+                    Beginning of conversation
+                  </Text>
+                ) : null
+              }
               keyExtractor={(item) => item.id || `${item.createdAt}-${item.senderId}`}
+              onScrollToIndexFailed={({ index, averageItemLength }) => {
+                // Rows have different heights; get close, then retry once they are measured
+                flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+                setTimeout(() => {
+                  flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+                }, 100);
+              }}
               renderItem={({ item }) => {
-                const isCurrentUser = item.senderId === user?.uid;
+                const isCurrentUser = isSentBy(chatDetails, item.senderId, user?.uid);
+                const attachments = item.localAttachments || item.attachments || [];
+                const reactions = getReactionSummary(item, user.uid);
+
+                // System messages (group created, member added/left, ...) render centered
+                if (item.senderId === 'system') {
+                  return (
+                    <View className="mb-4 self-center px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-800">
+                      <Text className="text-xs italic text-gray-500 dark:text-gray-400">{item.text}</Text>
+                    </View>
+                  );
+                }
                 
                 return (
-                  <View className={`mb-4 max-w-[80%] ${isCurrentUser ? 'self-end' : 'self-start'}`}>
+                  <TouchableOpacity
+                    className={`mb-4 max-w-[80%] ${isCurrentUser ? 'self-end' : 'self-start'}`}
+                    onPress={() => item.id && item.status === 'failed' && retry(item.id)}
+                    onLongPress={() => handleMessageLongPress(item)}
+                    activeOpacity={0.7}
+                  >
                     {!isCurrentUser && (
                       <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1 ml-2">
                         {item.senderName || `User-${item.senderId.substring(0, 5)}`}
@@ -247,59 +675,212 @@ export default function ChatScreen() {
                         isCurrentUser 
                           ? 'bg-blue-500 rounded-tr-none' 
                           : 'bg-gray-200 dark:bg-gray-700 rounded-tl-none'
+                      } ${item.status ? 'opacity-60' : ''} ${
+                        item.id === highlightedId ? 'border-2 border-yellow-400' : ''
                       }`}
                     >
-                      <Text 
-                        className={`${
-                          isCurrentUser ? 'text-white' : 'text-gray-800 dark:text-white'
-                        }`}
-                      >
-                        {item.text}
-                      </Text>
+                      {item.replyTo && !item.deleted && (
+                        <TouchableOpacity
+                          className={`mb-2 pl-2 border-l-4 ${
+                            isCurrentUser ? 'border-blue-200' : 'border-blue-500'
+                          }`}
+                          onPress={() => jumpToMessage(item.replyTo!.messageId)}
+                        >
+                          <Text
+                            className={`text-xs font-semibold ${
+                              isCurrentUser ? 'text-blue-100' : 'text-blue-500'
+                            }`}
+                          >
+                            {item.replyTo.senderId === user.uid ? 'You' : item.replyTo.senderName}
+                          </Text>
+                          <Text
+                            className={`text-xs ${
+                              isCurrentUser ? 'text-blue-100' : 'text-gray-600 dark:text-gray-300'
+                            }`}
+                            numberOfLines={2}
+                          >
+                            {messagesById.get(item.replyTo.messageId)?.deleted
+                              ? DELETED_MESSAGE_TEXT
+                              : item.replyTo.text}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                      {item.deleted ? (
+                        <Text
+                          className={`italic ${
+                            isCurrentUser ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'
+                          }`}
+                        >
+                          {DELETED_MESSAGE_TEXT}
+                        </Text>
+                      ) : attachments.length > 0 && (
+                        <MessageAttachments
+                          attachments={attachments}
+                          isCurrentUser={isCurrentUser}
+                          progress={item.status === 'pending' ? item.progress : undefined}
+                          onOpenImage={setViewerUri}
+                        />
+                      )}
+                      {!!item.text && (
+                        <Text 
+                          className={`${
+                            isCurrentUser ? 'text-white' : 'text-gray-800 dark:text-white'
+                          }`}
+                        >
+                          {item.text}
+                        </Text>
+                      )}
                     </View>
                     <View className={`flex-row ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
-                      <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1 mx-2">
+                      <Text
+                        className={`text-xs mt-1 mx-2 ${
+                          item.status === 'failed' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'
+                        }`}
+                      >
                         {formatTime(item.createdAt)}
+                        {item.editedAt && !item.deleted && ' · edited'}
+                        {isCurrentUser && ` · ${getStatusLabel(item)}`}
                       </Text>
                     </View>
-                  </View>
+                    {reactions.length > 0 && (
+                      <View className={`flex-row flex-wrap mt-1 ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
+                        {reactions.map(reaction => (
+                          <TouchableOpacity
+                            key={reaction.emoji}
+                            className={`flex-row items-center px-2 py-0.5 mx-0.5 mb-1 rounded-full border ${
+                              reaction.reactedByMe
+                                ? 'bg-blue-100 border-blue-400 dark:bg-blue-900'
+                                : 'bg-gray-100 border-gray-200 dark:bg-gray-800 dark:border-gray-700'
+                            }`}
+                            onPress={() => handleToggleReaction(item, reaction.emoji)}
+                            onLongPress={() => setReactionDetails(reactions)}
+                          >
+                            <Text className="text-sm">{reaction.emoji}</Text>
+                            <Text className="text-xs ml-1 text-gray-600 dark:text-gray-300">{reaction.count}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    )}
+                  </TouchableOpacity>
                 );
               }}
             />
           )}
           
-          {/* Message Input */}
-          <View 
-            className="p-2 border-t border-gray-200 dark:border-gray-800 flex-row items-center"
-            style={{ 
-              paddingBottom: Math.max(insets.bottom, 8) 
-            }}
-          >
-            <TextInput
-              className="flex-1 bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white mr-2"
-              placeholder="Type a message..."
-              placeholderTextColor="#9CA3AF"
-              value={messageText}
-              onChangeText={setMessageText}
-              multiline
-              autoFocus={false}
-            />
-            <TouchableOpacity
-              className={`p-3 rounded-full ${
-                !messageText.trim() || sending ? 'bg-gray-300 dark:bg-gray-700' : 'bg-blue-500'
-              }`}
-              onPress={handleSendMessage}
-              disabled={!messageText.trim() || sending}
+          {/* Message being replied to */}
+          {replyingTo && (
+            <View className="px-4 py-2 border-t border-gray-200 dark:border-gray-800 flex-row items-center">
+              <Ionicons name="arrow-undo" size={16} color="#3B82F6" />
+              <View className="flex-1 ml-2">
+                <Text className="text-xs font-semibold text-blue-500">
+                  Replying to {replyingTo.senderId === user.uid ? 'yourself' : replyingTo.senderName}
+                </Text>
+                <Text className="text-xs text-gray-500 dark:text-gray-400" numberOfLines={1}>
+                  {createMessageReply(replyingTo).text}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => setReplyingTo(null)}>
+                <Ionicons name="close" size={20} color="#9CA3AF" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Message being edited */}
+          {editingMessage && (
+            <View className="px-4 py-2 border-t border-gray-200 dark:border-gray-800 flex-row items-center">
+              <Ionicons name="pencil" size={16} color="#3B82F6" />
+              <View className="flex-1 ml-2">
+                <Text className="text-xs font-semibold text-blue-500">Editing message</Text>
+                <Text className="text-xs text-gray-500 dark:text-gray-400" numberOfLines={1}>
+                  {editingMessage.text}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={cancelEditing}>
+                <Ionicons name="close" size={20} color="#9CA3AF" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Blocked users can't be messaged until they are unblocked */}
+          {otherUserBlocked ? (
+            <View
+              className="p-4 border-t border-gray-200 dark:border-gray-800 items-center"
+              style={{ paddingBottom: Math.max(insets.bottom, 16) }}
             >
-              {sending ? (
-                <ActivityIndicator size="small" color="#FFFFFF" />
-              ) : (
-                <Text className="text-white font-bold">Send</Text>
-              )}
-            </TouchableOpacity>
-          </View>
+              <Text className="text-gray-500 dark:text-gray-400 mb-2">You blocked {getChatTitle()}.</Text>
+              <TouchableOpacity onPress={handleUnblock}>
+                <Text className="text-blue-500 font-semibold">Unblock</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View 
+              className="p-2 border-t border-gray-200 dark:border-gray-800 flex-row items-center"
+              style={{ 
+                paddingBottom: Math.max(insets.bottom, 8) 
+              }}
+            >
+              <TouchableOpacity className="p-2 mr-1" onPress={handleAttachImage} disabled={!!editingMessage}>
+                <Ionicons name="image-outline" size={26} color="#3B82F6" />
+              </TouchableOpacity>
+              <TextInput
+                className="flex-1 bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white mr-2"
+                placeholder="Type a message..."
+                placeholderTextColor="#9CA3AF"
+                value={messageText}
+                onChangeText={handleChangeText}
+                multiline
+                autoFocus={false}
+              />
+              <TouchableOpacity
+                className={`p-3 rounded-full ${
+                  !messageText.trim() ? 'bg-gray-300 dark:bg-gray-700' : 'bg-blue-500'
+                }`}
+                onPress={handleSendMessage}
+                disabled={!messageText.trim()}
+              >
+                <Text className="text-white font-bold">{editingMessage ? 'Save' : 'Send'}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </KeyboardAvoidingView>
+
+      {/* Full-screen image viewer */}
+      <ImageViewer uri={viewerUri} onClose={() => setViewerUri(null)} />
+
+      {/* Earlier versions of an edited message */}
+      <EditHistoryModal
+        messageId={historyMessage?.id || null}
+        currentText={historyMessage?.text || ''}
+        onClose={() => setHistoryMessage(null)}
+      />
+
+      {/* Reaction picker and message actions */}
+      <MessageActionSheet
+        visible={!!actionMessage}
+        myReactions={actionMessage ? getReactionSummary(actionMessage, user.uid)
+          .filter(reaction => reaction.reactedByMe)
+          .map(reaction => reaction.emoji) : []}
+        actions={actionMessage ? getMessageActions(actionMessage) : []}
+        onReact={(emoji) => actionMessage && handleToggleReaction(actionMessage, emoji)}
+        onClose={() => setActionMessage(null)}
+      />
+
+      {/* Mute durations, block and report actions */}
+      <ActionSheet
+        visible={!!sheet}
+        title={sheet?.title}
+        actions={sheet?.actions || []}
+        onClose={() => setSheet(null)}
+      />
+
+      {/* Who reacted */}
+      <ReactionDetailsSheet
+        reactions={reactionDetails}
+        currentUserId={user.uid}
+        participantNames={chatDetails?.participantNames || {}}
+        onClose={() => setReactionDetails(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -0,0 +1,67 @@
+import Constants from 'expo-constants';
+
+// Environments the app can run against; app.config.js selects one with APP_ENV
+export type EnvironmentName = 'prod' | 'emulator';
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = ['prod', 'emulator'];
+
+// Firebase web app config, as shown in the Firebase console
+export interface FirebaseWebConfig {
+  apiKey: string;
+  authDomain: string;
+  databaseURL?: string;
+  projectId: string;
+  storageBucket: string;
+  messagingSenderId: string;
+  appId: string;
+}
+
+// Where the local emulator suite listens (see firebase.json)
+export interface EmulatorConfig {
+  host: string;
+  authPort: number;
+  firestorePort: number;
+  storagePort: number;
+}
+
+// The environment profile from app.json's expo.extra.environments
+export interface Environment {
+  name: EnvironmentName;
+  firebase: FirebaseWebConfig;
+  // Set for the emulator profile only
+  emulators: EmulatorConfig | null;
+}
+
+// Get the environment this build runs against, checking the profile is complete
+export const getEnvironment = (): Environment => {
+  const environment = Constants.expoConfig?.extra?.environment;
+  if (!environment) {
+    throw new Error('No environment in the Expo config. Is app.config.js being used?');
+  }
+  if (!ENVIRONMENT_NAMES.includes(environment.name)) {
+    throw new Error(`Unknown environment: ${environment.name}`);
+  }
+
+  const { apiKey, projectId, appId } = environment.firebase || {};
+  if (!apiKey || !projectId || !appId) {
+    throw new Error(`Incomplete Firebase config for the ${environment.name} environment`);
+  }
+
+  const emulators = environment.emulators;
+  if (emulators && (!emulators.host || !emulators.authPort || !emulators.firestorePort || !emulators.storagePort)) {
+    throw new Error(`Incomplete emulator config for the ${environment.name} environment`);
+  }
+
+  return {
+    name: environment.name,
+    firebase: environment.firebase,
+    emulators: emulators || null,
+  };
+};
+
+// Collection of environment helpers
+const environmentServices = {
+  getEnvironment,
+};
+
+export default environmentServices;
@@ -7,19 +7,33 @@ import {
   signInAnonymously,
   signInWithEmailAndPassword,
   signOut as firebaseSignOut,
-  updateProfile
+  updateProfile,
+  EmailAuthProvider,
+  linkWithCredential,
+  sendPasswordResetEmail
 } from 'firebase/auth';
-import { doc, setDoc, serverTimestamp, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { setDoc, serverTimestamp, getDoc, runTransaction, WithFieldValue } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { Alert } from 'react-native';
 import { auth, firestore, storage } from '../firebase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Device from 'expo-device';
+import { flushOutbox } from '../services/outbox';
+import { resumeAccountMerge, refreshDeviceAccount } from '../services/accountRecovery';
+import { startDeviceSession, registerDevice, watchDeviceRevocation } from '../services/devices';
+import { startPresence, setPresence } from '../services/presence';
+import { userDocRef } from '../models/collections';
+import { readDoc } from '../models/schema';
+import { User as UserProfile, getDefaultDisplayName } from '../models/user';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  // Whether the account is anonymous, i.e. lost if the app is reinstalled
+  isAnonymous: boolean;
   signIn: () => Promise<User | null>;
   signInWithEmail: (email: string, password: string) => Promise<User | null>;
+  secureAccount: (email: string, password: string) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
   signOut: () => Promise<void>;
   updateDisplayName: (name: string) => Promise<void>;
   updateProfilePhoto: (uri: string) => Promise<void>;
@@ -40,12 +54,12 @@ interface AuthProviderProps {
 }
 
 // Helper function to create or update user document in Firestore
-export const createOrUpdateUserDocument = async (user: User, additionalData?: Record<string, any>) => {
+export const createOrUpdateUserDocument = async (user: User, additionalData?: Partial<WithFieldValue<UserProfile>>) => {
   if (!user) return;
 
   try {
     console.log(`Creating/updating user document for user: ${user.uid}`);
-    const userRef = doc(firestore, 'users', user.uid);
+    const userRef = userDocRef(user.uid);
     
     // Check if the user document already exists
     const userSnap = await getDoc(userRef);
@@ -53,123 +67,83 @@ export const createOrUpdateUserDocument = async (user: User, additionalData?: Re
     // Get the current timestamp
     const timestamp = serverTimestamp();
     
-    if (userSnap.exists()) {
-      console.log(`User document exists, updating: ${user.uid}`);
-      const userData = userSnap.data();
-      
-      // Update the existing document
-      await setDoc(userRef, {
-        ...userData,
-        displayName: user.displayName || userData.displayName || `User-${user.uid.substring(0, 5)}`,
-        email: user.email || userData.email || null,
-        photoURL: user.photoURL || userData.photoURL || null,
-        lastActive: timestamp,
-        ...additionalData
-      }, { merge: true });
-      
-      console.log(`Updated user document for: ${user.uid}`);
-    } else {
+    if (!userSnap.exists()) {
       console.log(`User document does not exist, creating new: ${user.uid}`);
       
-      // Create a new document
-      await setDoc(userRef, {
-        uid: user.uid,
-        displayName: user.displayName || `User-${user.uid.substring(0, 5)}`,
-        email: user.email || null,
-        photoURL: user.photoURL || null,
-        createdAt: timestamp,
-        lastActive: timestamp,
-        ...additionalData
+      // Create the document in a transaction: a full write must not land after
+      // another write to the new profile (e.g. a username claimed right after
+      // sign-in, or a second call racing this one) and wipe its fields
+      const created = await runTransaction(firestore, async (transaction) => {
+        if ((await transaction.get(userRef)).exists()) return false;
+        transaction.set(userRef, {
+          uid: user.uid,
+          displayName: user.displayName || getDefaultDisplayName(user.uid),
+          email: user.email || null,
+          photoURL: user.photoURL || null,
+          isAnonymous: user.isAnonymous,
+          createdAt: timestamp,
+          lastActive: timestamp,
+          ...additionalData
+        });
+        return true;
       });
       
-      console.log(`Created new user document for: ${user.uid}`);
-    }
-  } catch (error) {
-    console.error('Error creating/updating user document:', error);
-    throw error;
-  }
-};
-
-// Get a unique device ID
-export const getDeviceId = async (): Promise<string> => {
-  try {
-    // Try to get the stored device ID first
-    const storedDeviceId = await AsyncStorage.getItem('device_id');
-    
-    if (storedDeviceId) {
-      console.log('Using stored device ID:', storedDeviceId);
-      return storedDeviceId;
-    }
-    
-    // Generate a new device ID based on device information
-    let deviceInfo = '';
-    
-    // Get device brand
-    if (Device.brand) {
-      deviceInfo += Device.brand;
-    }
-    
-    // Get device model
-    if (Device.modelName) {
-      deviceInfo += `-${Device.modelName}`;
-    }
-    
-    // Get device OS
-    if (Device.osName) {
-      deviceInfo += `-${Device.osName}`;
-    }
-    
-    // If we couldn't get any device info, use a timestamp
-    if (!deviceInfo) {
-      deviceInfo = `device-${Date.now()}`;
+      if (created) {
+        console.log(`Created new user document for: ${user.uid}`);
+        return;
+      }
     }
     
-    // Add a random component to ensure uniqueness
-    const randomComponent = Math.random().toString(36).substring(2, 10);
-    const deviceId = `${deviceInfo}-${randomComponent}`;
+    console.log(`User document exists, updating: ${user.uid}`);
+    const userData = readDoc(userSnap);
     
-    // Store the device ID for future use
-    await AsyncStorage.setItem('device_id', deviceId);
+    // Update the existing document
+    await setDoc(userRef, {
+      displayName: user.displayName || userData?.displayName || getDefaultDisplayName(user.uid),
+      email: user.email || userData?.email || null,
+      photoURL: user.photoURL || userData?.photoURL || null,
+      isAnonymous: user.isAnonymous,
+      lastActive: timestamp,
+      ...additionalData
+    }, { merge: true });
     
-    console.log('Generated and stored new device ID:', deviceId);
-    return deviceId;
+    console.log(`Updated user document for: ${user.uid}`);
   } catch (error) {
-    console.error('Error getting device ID:', error);
-    // Fallback to a timestamp-based ID
-    const fallbackId = `fallback-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
-    console.log('Using fallback device ID:', fallbackId);
-    return fallbackId;
+    console.error('Error creating/updating user document:', error);
+    throw error;
   }
 };
 
-// Find a user by device ID
-export const findUserByDeviceId = async (deviceId: string): Promise<string | null> => {
-  try {
-    console.log(`Looking for user with device ID: ${deviceId}`);
-    
-    // Query Firestore for users with this device ID
-    const usersRef = collection(firestore, 'users');
-    const q = query(usersRef, where('devices', 'array-contains', deviceId));
-    const querySnapshot = await getDocs(q);
-    
-    if (!querySnapshot.empty) {
-      // Get the first user that matches
-      const userId = querySnapshot.docs[0].id;
-      console.log(`Found user with ID: ${userId} for device ID: ${deviceId}`);
-      return userId;
-    }
-    
-    console.log(`No user found for device ID: ${deviceId}`);
-    return null;
-  } catch (error) {
-    console.error('Error finding user by device ID:', error);
-    return null;
+// Turn a Firebase Auth error into a message to show the user
+export const getAuthErrorMessage = (error: any): string => {
+  switch (error?.code) {
+    case 'auth/invalid-email':
+      return 'That email address is not valid.';
+    case 'auth/missing-password':
+    case 'auth/weak-password':
+      return 'Passwords must be at least 6 characters.';
+    case 'auth/email-already-in-use':
+    case 'auth/credential-already-in-use':
+      return 'That email already belongs to another account.';
+    case 'auth/provider-already-linked':
+      return 'This account is already secured with an email.';
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found':
+      return 'Incorrect email or password.';
+    case 'auth/too-many-requests':
+      return 'Too many attempts. Please try again later.';
+    case 'auth/network-request-failed':
+      return 'No connection. Check your network and try again.';
+    default:
+      return error?.message || 'Something went wrong. Please try again.';
   }
 };
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isAnonymous, setIsAnonymous] = useState(false);
 
   // Check for stored authentication state on startup
   useEffect(() => {
@@ -229,6 +203,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           }));
           
           console.log('Stored auth state in AsyncStorage');
+
+          // Add this device to the user's device registry
+          registerDevice();
+
+          // Resend messages that were still queued when the app was last closed
+          flushOutbox();
+
+          // Finish merging an orphaned guest account if the app closed mid-merge
+          resumeAccountMerge();
         } catch (error) {
           console.error('Error updating user document on auth state change:', error);
         }
@@ -244,6 +227,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
       
       setUser(authUser);
+      setIsAnonymous(!!authUser?.isAnonymous);
       setLoading(false);
     });
 
@@ -251,48 +235,44 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => unsubscribe();
   }, []);
 
-  // Sign in anonymously, using device ID to maintain consistent user identity
+  // Keep the signed-in user's presence (online / away) and lastActive current
+  useEffect(() => {
+    if (!user) return () => {};
+    return startPresence(user.uid);
+  }, [user]);
+
+  // Sign out when this device is revoked from another device (settings > Devices)
+  useEffect(() => {
+    if (!user) return () => {};
+    return watchDeviceRevocation(user.uid, async () => {
+      await AsyncStorage.removeItem('user_auth_state');
+      await firebaseSignOut(auth);
+      Alert.alert('Signed Out', 'This device was signed out from another device.');
+    });
+  }, [user]);
+
+  // Sign in anonymously
   const signIn = async (): Promise<User | null> => {
     try {
-      console.log('Starting sign-in process with device ID tracking');
+      console.log('Starting anonymous sign-in');
       setLoading(true);
       
-      // Get the device ID
-      const deviceId = await getDeviceId();
-      console.log('Device ID for authentication:', deviceId);
-      
       // Check if we already have a user signed in
       const currentUser = auth.currentUser;
       if (currentUser) {
         console.log('User already signed in:', currentUser.uid);
-        // Update the user document to ensure device ID is associated
-        await createOrUpdateUserDocument(currentUser, {
-          devices: [deviceId]
-        });
         return currentUser;
       }
       
-      // Try to find an existing user for this device
-      const existingUserId = await findUserByDeviceId(deviceId);
-      
-      if (existingUserId) {
-        console.log(`Found existing user (${existingUserId}) for this device, but cannot sign in as them directly with anonymous auth`);
-        console.log('Creating a new anonymous user and linking to the existing device ID');
-      } else {
-        console.log('No existing user found for this device, creating a new anonymous user');
-      }
-      
       // Create a new anonymous user
-      // Note: With Firebase anonymous auth, we can't sign in as a specific anonymous user
-      // We can only create new ones and track them via device ID in Firestore
+      // Note: With Firebase anonymous auth, we can't sign back in as a previous anonymous
+      // user. Accounts secured with an email (secureAccount) are restored with signInWithEmail.
+      // The new user document and device registration are written by onAuthStateChanged.
+      await startDeviceSession();
+      console.log('Creating a new anonymous user');
       const { user: newUser } = await signInAnonymously(auth);
       console.log(`Created new anonymous user: ${newUser.uid}`);
       
-      // Update the user document with the device ID
-      await createOrUpdateUserDocument(newUser, {
-        devices: [deviceId]
-      });
-      
       return newUser;
     } catch (error) {
       console.error('Error signing in:', error);
@@ -307,19 +287,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log(`Signing in with email: ${email}`);
       setLoading(true);
       
-      // Sign in with email and password
+      // Sign in with email and password (a new session on this device)
+      await startDeviceSession();
       const { user: signedInUser } = await signInWithEmailAndPassword(auth, email, password);
       console.log(`Signed in successfully as: ${signedInUser.uid}`);
       
-      // Get the device ID
-      const deviceId = await getDeviceId();
-      
-      // Update the user document with the device ID
-      await createOrUpdateUserDocument(signedInUser, {
-        devices: [deviceId],
-        lastLogin: serverTimestamp()
-      });
-      
       return signedInUser;
     } catch (error) {
       console.error('Error signing in with email:', error);
@@ -328,22 +300,66 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Attach email/password credentials to the current anonymous account. The UID
+  // stays the same, so chats and contacts carry over and can be restored on a new install.
+  const secureAccount = async (email: string, password: string): Promise<void> => {
+    try {
+      const currentUser = auth.currentUser;
+      if (!currentUser) {
+        throw new Error('No user is signed in');
+      }
+      if (!currentUser.isAnonymous) {
+        throw new Error('This account is already secured');
+      }
+
+      console.log(`Linking email credentials to user: ${currentUser.uid}`);
+      const credential = EmailAuthProvider.credential(email.trim(), password);
+      const { user: linkedUser } = await linkWithCredential(currentUser, credential);
+
+      await createOrUpdateUserDocument(linkedUser, {
+        email: linkedUser.email,
+        isAnonymous: false,
+        securedAt: serverTimestamp()
+      });
+      await AsyncStorage.setItem('user_auth_state', JSON.stringify({
+        uid: linkedUser.uid,
+        displayName: linkedUser.displayName,
+        email: linkedUser.email,
+        isAnonymous: false,
+        lastLogin: new Date().toISOString()
+      }));
+
+      // Linking updates the user in place, which doesn't re-render consumers by itself
+      setIsAnonymous(false);
+      // A secured account can be signed back into, so it's no longer offered for merging
+      await refreshDeviceAccount();
+      console.log('Account secured successfully');
+    } catch (error) {
+      console.error('Error securing account:', error);
+      throw error;
+    }
+  };
+
+  // Email a link to reset the password of a secured account
+  const sendPasswordReset = async (email: string): Promise<void> => {
+    try {
+      console.log(`Sending password reset email to: ${email}`);
+      await sendPasswordResetEmail(auth, email.trim());
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+      throw error;
+    }
+  };
+
   // Sign out
   const signOut = async (): Promise<void> => {
     try {
       console.log('Signing out...');
       
-      // Update the user's last active timestamp before signing out
+      // Show the user as offline (and update their last active timestamp) before signing out
       if (user) {
-        try {
-          const userRef = doc(firestore, 'users', user.uid);
-          await setDoc(userRef, {
-            lastActive: serverTimestamp()
-          }, { merge: true });
-          console.log(`Updated last active timestamp for user: ${user.uid}`);
-        } catch (error) {
-          console.error('Error updating last active timestamp:', error);
-        }
+        await setPresence(user.uid, 'offline');
+        console.log(`Marked user as offline: ${user.uid}`);
       }
       
       // Clear stored auth state
@@ -423,8 +439,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       value={{
         user,
         loading,
+        isAnonymous,
         signIn,
         signInWithEmail,
+        secureAccount,
+        sendPasswordReset,
         signOut,
         updateDisplayName,
         updateProfilePhoto
@@ -1,13 +1,15 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
 import { useAuthContext } from './contexts/AuthContext';
-import { collection, getDocs, query, where, onSnapshot } from 'firebase/firestore';
-import { firestore } from './firebase';
+import { getDocs, query, where, onSnapshot } from 'firebase/firestore';
+import { usersCollection } from './models/collections';
+import { readDocs } from './models/schema';
+import { User } from './models/user';
 import { useRouter } from 'expo-router';
 
 export default function DebugScreen() {
   const { user, loading: authLoading, signIn, updateDisplayName } = useAuthContext();
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [firestoreStatus, setFirestoreStatus] = useState<'checking' | 'connected' | 'error'>('checking');
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
@@ -48,7 +50,7 @@ export default function DebugScreen() {
       setFirestoreStatus('checking');
       
       // Try to get a document from Firestore
-      const testRef = collection(firestore, 'users');
+      const testRef = usersCollection();
       const testSnapshot = await getDocs(testRef);
       
       addLog(`Firestore connected! Found ${testSnapshot.size} users.`);
@@ -65,13 +67,8 @@ export default function DebugScreen() {
       addLog('Fetching users...');
       setLoadingUsers(true);
       
-      const usersRef = collection(firestore, 'users');
-      const usersSnapshot = await getDocs(usersRef);
-      
-      const usersList = usersSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }));
+      const usersSnapshot = await getDocs(usersCollection());
+      const usersList = readDocs(usersSnapshot);
       
       setUsers(usersList);
       addLog(`Found ${usersList.length} users`);
@@ -87,12 +84,8 @@ export default function DebugScreen() {
     if (user) {
       addLog('Setting up real-time listener for users...');
       
-      const usersRef = collection(firestore, 'users');
-      const unsubscribe = onSnapshot(usersRef, (snapshot) => {
-        const usersList = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        }));
+      const unsubscribe = onSnapshot(usersCollection(), (snapshot) => {
+        const usersList = readDocs(snapshot);
         
         setUsers(usersList);
         addLog(`Real-time update: ${usersList.length} users`);
@@ -144,11 +137,11 @@ export default function DebugScreen() {
         ) : (
           <View>
             {users.map((user) => (
-              <View key={user.id} style={styles.userItem}>
-                <Text style={styles.userName}>{user.displayName || 'No name'}</Text>
-                <Text style={styles.userId}>{user.id}</Text>
+              <View key={user.uid} style={styles.userItem}>
+                <Text style={styles.userName}>{user.displayName}</Text>
+                <Text style={styles.userId}>{user.uid}</Text>
                 <Text style={styles.userStatus}>
-                  {user.lastActive ? `Last active: ${new Date(user.lastActive.seconds * 1000).toLocaleString()}` : 'Never active'}
+                  {user.lastActive ? `Last active: ${user.lastActive.toLocaleString()}` : 'Never active'}
                 </Text>
               </View>
             ))}
@@ -0,0 +1,111 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, SafeAreaView, Alert, FlatList } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthContext } from './contexts/AuthContext';
+import { useDevices, revokeDevice, DeviceSession } from './services/devices';
+
+// Describe when a device was last active
+const formatLastSeen = (date: Date) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} min ago`;
+  if (minutes < 60 * 24) return `Active ${Math.floor(minutes / 60)} h ago`;
+  return `Last active ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+};
+
+export default function DevicesScreen() {
+  const { user, loading: authLoading, isAnonymous } = useAuthContext();
+  const { devices, loading, error } = useDevices();
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      console.log('User not authenticated, redirecting to login');
+      router.replace('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Sign another device out after confirmation
+  const handleRevoke = (device: DeviceSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      isAnonymous
+        ? `${device.model} will be signed out. Your account isn't secured, so it can't sign back in.`
+        : `${device.model} will be signed out the next time it connects.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => {
+            revokeDevice(device.id).catch(() => Alert.alert('Error', 'Failed to sign out the device.'));
+          },
+        },
+      ]
+    );
+  };
+
+  if (authLoading || loading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#0000ff" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (error) {
+    return (
+      <View className="flex-1 items-center justify-center p-4">
+        <Text className="text-red-500">Error loading devices</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+      <FlatList
+        data={devices}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <Text className="p-4 text-sm text-gray-500 dark:text-gray-400">
+            Devices signed in to your account. Signing out a device you don&apos;t recognize
+            removes its access.
+          </Text>
+        }
+        renderItem={({ item }) => (
+          <View className="flex-row items-center px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+            <Ionicons
+              name={item.platform === 'web' ? 'desktop-outline' : 'phone-portrait-outline'}
+              size={28}
+              color="#6B7280"
+            />
+            <View className="flex-1 ml-3">
+              <Text className="font-semibold text-gray-800 dark:text-white">
+                {item.model}
+                {item.isCurrent && <Text className="text-green-600"> · This device</Text>}
+              </Text>
+              <Text className="text-xs text-gray-500 dark:text-gray-400">
+                {[item.platform, item.osVersion, item.appVersion && `app ${item.appVersion}`].filter(Boolean).join(' · ')}
+              </Text>
+              <Text className="text-xs text-gray-500 dark:text-gray-400">
+                {item.isCurrent ? 'Active now' : formatLastSeen(item.lastSeenAt)}
+                {` · First seen ${item.firstSeenAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+              </Text>
+            </View>
+            {!item.isCurrent && (
+              <TouchableOpacity className="px-3 py-2" onPress={() => handleRevoke(item)}>
+                <Text className="text-red-500">Sign Out</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      />
+    </SafeAreaView>
+  );
+}
@@ -4,19 +4,33 @@ import {
   Auth,
   onAuthStateChanged,
   initializeAuth,
-  getReactNativePersistence
+  getReactNativePersistence,
+  connectAuthEmulator
 } from 'firebase/auth';
-import { getFirestore, Firestore } from 'firebase/firestore';
-import { getStorage, FirebaseStorage } from 'firebase/storage';
-import firebaseConfig from '../firebase.config.js';
+import { 
+  getFirestore, 
+  Firestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentSingleTabManager,
+  memoryLocalCache,
+  connectFirestoreEmulator
+} from 'firebase/firestore';
+import { getStorage, FirebaseStorage, connectStorageEmulator } from 'firebase/storage';
+import { Platform } from 'react-native';
+import { getEnvironment } from './config/environment';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import ReactNativeAsyncStorage from '@react-native-async-storage/async-storage';
 
+// The Firebase project to use comes from the environment selected with APP_ENV
+// (see app.config.js); the emulator environment uses the local emulator suite
+const environment = getEnvironment();
+
 // Initialize Firebase
-console.log('Initializing Firebase with web SDK');
+console.log(`Initializing Firebase with web SDK (${environment.name} environment)`);
 
 // Initialize Firebase app
-const app: FirebaseApp = initializeApp(firebaseConfig);
+const app: FirebaseApp = initializeApp(environment.firebase);
 
 // Initialize Firebase Auth with React Native persistence
 let auth: Auth;
@@ -33,11 +47,38 @@ try {
   console.log('Firebase Auth initialized with standard method (no persistence)');
 }
 
-// Initialize Firestore and Storage
-const firestore: Firestore = getFirestore(app);
+// Initialize Firestore. The web SDK can only persist its cache in IndexedDB, which
+// React Native doesn't have (it would silently fall back to memory), so native builds
+// use a memory cache: chats read this session stay readable offline and writes made
+// offline are queued until the connection comes back. For reading offline after a
+// restart, useChats and useMessages keep their own snapshot (see services/offlineCache).
+let firestore: Firestore;
+try {
+  firestore = initializeFirestore(app, {
+    localCache: Platform.OS === 'web'
+      ? persistentLocalCache({ tabManager: persistentSingleTabManager(undefined) })
+      : memoryLocalCache()
+  });
+  console.log(`Firestore initialized with ${Platform.OS === 'web' ? 'persistent' : 'memory'} local cache`);
+} catch (error) {
+  // Fallback to the default (in-memory) cache if the cache can't be set up
+  console.error('Error initializing Firestore cache, falling back to default cache:', error);
+  firestore = getFirestore(app);
+}
+
+// Initialize Storage
 const storage: FirebaseStorage = getStorage(app);
 console.log('Firebase Storage initialized');
 
+// Point every service at the emulators before anything talks to the backend
+if (environment.emulators) {
+  const { host, authPort, firestorePort, storagePort } = environment.emulators;
+  connectAuthEmulator(auth, `http://${host}:${authPort}`, { disableWarnings: true });
+  connectFirestoreEmulator(firestore, host, firestorePort);
+  connectStorageEmulator(storage, host, storagePort);
+  console.log(`Firebase connected to the emulator suite at ${host}`);
+}
+
 // Debug auth state changes
 onAuthStateChanged(auth, (user) => {
   console.log('Firebase auth state changed:', user ? `User ID: ${user.uid}` : 'No user');
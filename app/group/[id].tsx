@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, ActivityIndicator, Alert, SafeAreaView, Image, Modal } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { onSnapshot } from 'firebase/firestore';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { chatDocRef } from '../models/collections';
+import { readDoc } from '../models/schema';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useContacts } from '../services/contacts';
+import { useBlockedUsers } from '../services/moderation';
+import {
+  Chat,
+  getChatTitle,
+  isChatAdmin,
+  updateGroupDetails,
+  updateGroupPhoto,
+  addGroupMembers,
+  removeGroupMember,
+  setGroupAdmin,
+  leaveGroup,
+} from '../services/chat';
+
+export default function GroupInfoScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuthContext();
+  const { contacts: users } = useContacts();
+  const { blockedIds } = useBlockedUsers();
+  const router = useRouter();
+  const [chat, setChat] = useState<Chat | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [showAddMembers, setShowAddMembers] = useState(false);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Subscribe to the group document
+  useEffect(() => {
+    if (!id || !user) return () => {};
+
+    const unsubscribe = onSnapshot(
+      chatDocRef(id),
+      (chatDoc) => {
+        setChat(readDoc(chatDoc) || null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading group info:', err);
+        setChat(null);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [id, user]);
+
+  // Run a group operation with a busy indicator and error alert
+  const runGroupAction = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      setWorking(true);
+      await action();
+    } catch (error: any) {
+      console.error(errorMessage, error);
+      Alert.alert('Error', error?.message || errorMessage);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#0000ff" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!chat || !chat.isGroup || !chat.participants.includes(user.uid)) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center p-4">
+        <Text className="text-lg text-gray-800 dark:text-white mb-4">Group not available</Text>
+        <TouchableOpacity
+          className="bg-blue-500 px-4 py-2 rounded-lg"
+          onPress={() => router.back()}
+        >
+          <Text className="text-white font-bold">Go Back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const isAdmin = isChatAdmin(chat, user.uid);
+  const title = getChatTitle(chat, user.uid);
+  const candidates = users.filter(u => !chat.participants.includes(u.uid) && !blockedIds.includes(u.uid));
+
+  // Change the group avatar
+  const handleChangePhoto = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Denied', 'We need permission to access your photos to set a group picture.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.7,
+    });
+
+    if (!result.canceled && result.assets && result.assets.length > 0) {
+      await runGroupAction(() => updateGroupPhoto(chat.id!, result.assets[0].uri), 'Failed to update group photo.');
+    }
+  };
+
+  // Save the new group name
+  const handleSaveName = async () => {
+    await runGroupAction(async () => {
+      await updateGroupDetails(chat.id!, { name: newName });
+      setIsEditingName(false);
+    }, 'Failed to rename group.');
+  };
+
+  // Show admin actions for a member
+  const handleMemberPress = (memberId: string) => {
+    if (!isAdmin || memberId === user.uid) return;
+
+    const memberName = chat.participantNames[memberId] || `User-${memberId.substring(0, 5)}`;
+    const memberIsAdmin = isChatAdmin(chat, memberId);
+
+    Alert.alert(memberName, undefined, [
+      {
+        text: memberIsAdmin ? 'Remove Admin' : 'Make Admin',
+        onPress: () => runGroupAction(() => setGroupAdmin(chat.id!, memberId, !memberIsAdmin), 'Failed to update admins.'),
+      },
+      {
+        text: 'Remove from Group',
+        style: 'destructive',
+        onPress: () => runGroupAction(() => removeGroupMember(chat.id!, memberId), 'Failed to remove member.'),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Add the selected users to the group
+  const handleAddMembers = async () => {
+    const members: Record<string, string> = {};
+    candidates
+      .filter(u => selectedUserIds.includes(u.uid))
+      .forEach(u => {
+        members[u.uid] = u.displayName;
+      });
+
+    await runGroupAction(async () => {
+      await addGroupMembers(chat.id!, members);
+      setShowAddMembers(false);
+      setSelectedUserIds([]);
+    }, 'Failed to add members.');
+  };
+
+  // Leave the group after confirmation
+  const handleLeaveGroup = () => {
+    Alert.alert('Leave Group', `Are you sure you want to leave "${title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () => runGroupAction(async () => {
+          await leaveGroup(chat.id!);
+          router.replace('/(tabs)');
+        }, 'Failed to leave group.'),
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+      {/* Group avatar and name */}
+      <View className="items-center p-6 border-b border-gray-200 dark:border-gray-800">
+        <TouchableOpacity onPress={handleChangePhoto} disabled={!isAdmin || working} activeOpacity={0.7}>
+          {chat.photoURL ? (
+            <Image source={{ uri: chat.photoURL }} className="w-24 h-24 rounded-full" />
+          ) : (
+            <View className="w-24 h-24 rounded-full bg-blue-500 items-center justify-center">
+              <Text className="text-4xl text-white font-bold">{title[0]}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+
+        {isEditingName ? (
+          <View className="w-full mt-4">
+            <TextInput
+              className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white"
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="Group name"
+              placeholderTextColor="#9CA3AF"
+              maxLength={50}
+            />
+            <View className="flex-row justify-end mt-2">
+              <TouchableOpacity className="px-4 py-2" onPress={() => setIsEditingName(false)}>
+                <Text className="text-gray-500">Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity className="bg-blue-500 px-4 py-2 rounded-lg" onPress={handleSaveName} disabled={working}>
+                <Text className="text-white font-bold">Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <TouchableOpacity
+            className="mt-4 flex-row items-center"
+            onPress={() => {
+              setNewName(chat.name || '');
+              setIsEditingName(true);
+            }}
+            disabled={!isAdmin}
+          >
+            <Text className="text-2xl font-bold text-gray-800 dark:text-white">{title}</Text>
+            {isAdmin && <Ionicons name="pencil" size={16} color="#3B82F6" style={{ marginLeft: 8 }} />}
+          </TouchableOpacity>
+        )}
+        <Text className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          {chat.participants.length} members
+        </Text>
+      </View>
+
+      {working && (
+        <View className="mt-2">
+          <ActivityIndicator size="small" color="#0000ff" />
+        </View>
+      )}
+
+      {/* Members */}
+      <View className="flex-row justify-between items-center px-4 pt-4 pb-2">
+        <Text className="text-sm font-semibold text-gray-500 dark:text-gray-400">MEMBERS</Text>
+        {isAdmin && (
+          <TouchableOpacity onPress={() => setShowAddMembers(true)}>
+            <Text className="text-blue-500">Add Members</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <FlatList
+        data={chat.participants}
+        keyExtractor={(item) => item}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            className="px-4 py-3 border-b border-gray-200 dark:border-gray-800 flex-row items-center"
+            onPress={() => handleMemberPress(item)}
+            disabled={!isAdmin || item === user.uid}
+          >
+            <Text className="flex-1 text-lg text-gray-800 dark:text-white">
+              {item === user.uid ? 'You' : chat.participantNames[item] || `User-${item.substring(0, 5)}`}
+            </Text>
+            {isChatAdmin(chat, item) && (
+              <Text className="text-xs text-blue-500 font-semibold">Admin</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        ListFooterComponent={
+          <TouchableOpacity className="p-4 mt-4" onPress={handleLeaveGroup} disabled={working}>
+            <Text className="text-red-500 text-lg text-center">Leave Group</Text>
+          </TouchableOpacity>
+        }
+      />
+
+      {/* Add members picker */}
+      <Modal visible={showAddMembers} animationType="slide" onRequestClose={() => setShowAddMembers(false)}>
+        <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+          <View className="p-4 border-b border-gray-200 dark:border-gray-800 flex-row items-center">
+            <TouchableOpacity className="mr-4" onPress={() => setShowAddMembers(false)}>
+              <Text className="text-blue-500">Cancel</Text>
+            </TouchableOpacity>
+            <Text className="flex-1 text-xl font-bold text-gray-800 dark:text-white">Add Members</Text>
+            <TouchableOpacity onPress={handleAddMembers} disabled={selectedUserIds.length === 0 || working}>
+              <Text className={selectedUserIds.length === 0 ? 'text-gray-400' : 'text-blue-500 font-bold'}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          <FlatList
+            data={candidates}
+            keyExtractor={(item) => item.uid}
+            ListEmptyComponent={
+              <Text className="text-gray-500 dark:text-gray-400 text-center p-4">Everyone is already in this group.</Text>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                className="p-4 border-b border-gray-200 dark:border-gray-800 flex-row items-center"
+                onPress={() => setSelectedUserIds(prev =>
+                  prev.includes(item.uid) ? prev.filter(uid => uid !== item.uid) : [...prev, item.uid]
+                )}
+              >
+                <Text className="flex-1 text-lg text-gray-800 dark:text-white">{item.displayName}</Text>
+                <Ionicons
+                  name={selectedUserIds.includes(item.uid) ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={24}
+                  color={selectedUserIds.includes(item.uid) ? '#3B82F6' : '#9CA3AF'}
+                />
+              </TouchableOpacity>
+            )}
+          />
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
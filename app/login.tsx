@@ -1,13 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, Alert, StyleSheet, ScrollView, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
-import { useAuthContext } from './contexts/AuthContext';
+import { useAuthContext, getAuthErrorMessage, createOrUpdateUserDocument } from './contexts/AuthContext';
 import { getAuth } from 'firebase/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { claimUsername, useUsernameAvailability } from './services/usernames';
+import { UsernameAvailability } from '@/components/UsernameAvailability';
 
 export default function LoginScreen() {
   const [username, setUsername] = useState('');
-  const { signIn, signInWithEmail, updateDisplayName, loading, user } = useAuthContext();
+  const [handle, setHandle] = useState('');
+  const handleAvailability = useUsernameAvailability(handle);
+  const { signIn, signInWithEmail, sendPasswordReset, updateDisplayName, loading, user } = useAuthContext();
+  const [restoreEmail, setRestoreEmail] = useState('');
+  const [restorePassword, setRestorePassword] = useState('');
   const router = useRouter();
   const [processingLogin, setProcessingLogin] = useState(false);
   const isIOS = Platform.OS === 'ios';
@@ -25,6 +31,11 @@ export default function LoginScreen() {
 
   const handleAnonymousLogin = async () => {
     if (processingLogin) return; // Prevent multiple login attempts
+
+    if (handle.trim() && handleAvailability.status !== 'available') {
+      Alert.alert('Username', handleAvailability.message || 'Please wait while we check your username.');
+      return;
+    }
     
     try {
       setProcessingLogin(true);
@@ -62,6 +73,18 @@ export default function LoginScreen() {
           // Continue anyway since the user is logged in
         }
       }
+
+      // Claim the username; it may have been taken since it was checked. The
+      // profile has to exist first, as the claim is written onto it.
+      if (handle.trim()) {
+        try {
+          await createOrUpdateUserDocument(auth.currentUser);
+          await claimUsername(handle);
+        } catch (error: any) {
+          console.error('Error claiming username:', error);
+          Alert.alert('Username', `${error?.message || 'Could not claim your username'}. You can choose one in Settings.`);
+        }
+      }
       
       // Navigate to the main app
       console.log('Navigating to main app');
@@ -108,6 +131,43 @@ export default function LoginScreen() {
     }
   };
 
+  // Sign back into an account that was secured with an email and password
+  const handleRestoreAccount = async () => {
+    if (processingLogin) return;
+
+    if (!restoreEmail.trim() || !restorePassword) {
+      Alert.alert('Restore Account', 'Please enter the email and password you secured your account with.');
+      return;
+    }
+
+    try {
+      setProcessingLogin(true);
+      const restoredUser = await signInWithEmail(restoreEmail.trim(), restorePassword);
+      console.log('Restored account:', restoredUser?.uid);
+      router.replace('/(tabs)');
+    } catch (error) {
+      console.error('Restore error:', error);
+      Alert.alert('Restore Account', getAuthErrorMessage(error));
+    } finally {
+      setProcessingLogin(false);
+    }
+  };
+
+  // Email a password reset link for a secured account
+  const handleForgotPassword = async () => {
+    if (!restoreEmail.trim()) {
+      Alert.alert('Reset Password', 'Enter your email first.');
+      return;
+    }
+
+    try {
+      await sendPasswordReset(restoreEmail);
+      Alert.alert('Reset Password', `We sent a link to reset your password to ${restoreEmail.trim()}.`);
+    } catch (error) {
+      Alert.alert('Reset Password', getAuthErrorMessage(error));
+    }
+  };
+
   // If still loading, show loading indicator
   if (loading || processingLogin) {
     return (
@@ -215,6 +275,21 @@ export default function LoginScreen() {
               autoCapitalize="none"
             />
           </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>Username (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Choose a unique username"
+              placeholderTextColor="#9CA3AF"
+              value={handle}
+              onChangeText={setHandle}
+              autoCapitalize="none"
+              autoCorrect={false}
+              maxLength={21}
+            />
+            <UsernameAvailability status={handleAvailability.status} message={handleAvailability.message} />
+          </View>
           
           <TouchableOpacity
             style={[styles.button, styles.guestButton]}
@@ -224,6 +299,57 @@ export default function LoginScreen() {
             <Text style={styles.buttonText}>Continue as Guest</Text>
           </TouchableOpacity>
         </View>
+
+        <View style={styles.divider}>
+          <View style={styles.dividerLine} />
+          <Text style={styles.dividerText}>OR</Text>
+          <View style={styles.dividerLine} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Restore Account</Text>
+          <Text style={styles.sectionDescription}>
+            Reinstalled or on a new phone? Sign in with the email you secured your account with.
+          </Text>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              placeholder="Email"
+              placeholderTextColor="#9CA3AF"
+              value={restoreEmail}
+              onChangeText={setRestoreEmail}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              textContentType="emailAddress"
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              placeholder="Password"
+              placeholderTextColor="#9CA3AF"
+              value={restorePassword}
+              onChangeText={setRestorePassword}
+              secureTextEntry
+              textContentType="password"
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, styles.testUserButton]}
+            onPress={handleRestoreAccount}
+            disabled={processingLogin}
+          >
+            <Text style={styles.buttonText}>Sign In</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity onPress={handleForgotPassword}>
+            <Text style={styles.linkText}>Forgot password?</Text>
+          </TouchableOpacity>
+        </View>
       </View>
     </ScrollView>
   );
@@ -312,6 +438,10 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontWeight: 'bold',
   },
+  linkText: {
+    color: '#3B82F6',
+    textAlign: 'center',
+  },
   loadingText: {
     marginTop: 16,
     fontSize: 16,
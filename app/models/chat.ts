@@ -0,0 +1,96 @@
+import { DocumentData } from 'firebase/firestore';
+import {
+  ModelSchema,
+  createConverter,
+  readDate,
+  readDateMap,
+  readOptionalString,
+  readString,
+  readStringList,
+  readStringMap,
+} from './schema';
+import schemaVersions from './schemaVersions.json';
+
+// Preview of a chat's newest message, shown in the chat list
+export interface LastMessage {
+  text: string;
+  createdAt: Date;
+  senderId: string;
+  // Lets edits and deletes update the preview of the message they change
+  messageId?: string;
+}
+
+// A 1:1 or group chat, stored at chats/{chatId}
+export interface Chat {
+  id?: string;
+  participants: string[];
+  participantNames: Record<string, string>;
+  lastMessage?: LastMessage;
+  createdAt: Date;
+  updatedAt: Date;
+  // Group chat fields (absent on 1:1 chats)
+  isGroup?: boolean;
+  name?: string;
+  photoURL?: string | null;
+  admins?: string[];
+  createdBy?: string;
+  // Read receipts: when each participant last read the chat, and how many
+  // messages each participant has not read yet
+  lastReadAt?: Record<string, Date>;
+  unreadCounts?: Record<string, number>;
+  // Orphaned guest accounts merged into a participant (old UID -> new UID),
+  // see services/accountRecovery
+  mergedAccounts?: Record<string, string>;
+  // Derived by useChats for the signed-in user (not stored)
+  unreadCount?: number;
+}
+
+// Build the last message preview from stored data
+const toLastMessage = (data: DocumentData): LastMessage => ({
+  text: readString(data, 'text'),
+  createdAt: readDate(data, 'createdAt'),
+  senderId: readString(data, 'senderId'),
+  messageId: readOptionalString(data, 'messageId') ?? undefined,
+});
+
+// Build a Chat from stored data
+const toChat = (id: string, data: DocumentData): Chat => ({
+  id,
+  participants: readStringList(data, 'participants'),
+  participantNames: readStringMap(data, 'participantNames'),
+  lastMessage: data.lastMessage ? toLastMessage(data.lastMessage) : undefined,
+  createdAt: readDate(data, 'createdAt'),
+  updatedAt: readDate(data, 'updatedAt'),
+  isGroup: data.isGroup === true,
+  name: readOptionalString(data, 'name') ?? undefined,
+  photoURL: readOptionalString(data, 'photoURL'),
+  admins: readStringList(data, 'admins', false),
+  createdBy: readOptionalString(data, 'createdBy') ?? undefined,
+  lastReadAt: readDateMap(data, 'lastReadAt'),
+  unreadCounts: data.unreadCounts || {},
+  mergedAccounts: readStringMap(data, 'mergedAccounts', false),
+});
+
+export const chatSchema: ModelSchema<Chat> = {
+  collection: 'chats',
+  version: schemaVersions.chats,
+  migrations: [
+    // Chats written before versioning already have the version 1 fields
+    (data) => data,
+  ],
+  fields: [
+    'participants', 'participantNames', 'lastMessage', 'createdAt', 'updatedAt', 'isGroup', 'name',
+    'photoURL', 'admins', 'createdBy', 'lastReadAt', 'unreadCounts', 'mergedAccounts',
+  ],
+  fromData: (id, data) => toChat(id, data),
+};
+
+export const chatConverter = createConverter(chatSchema);
+
+// Collection of chat model helpers
+const chatModel = {
+  chatSchema,
+  chatConverter,
+};
+
+export default chatModel;
@@ -0,0 +1,45 @@
+import { collection, doc } from 'firebase/firestore';
+import { firestore } from '../firebase';
+import { userConverter, userSchema } from './user';
+import { chatConverter, chatSchema } from './chat';
+import { messageConverter, messageEditConverter, messageEditSchema, messageSchema } from './message';
+
+// Typed references to the app's collections. Reads through them come back as
+// validated models and writes go through the models' converters.
+
+// The users collection
+export const usersCollection = () => collection(firestore, userSchema.collection).withConverter(userConverter);
+
+// A user's profile document
+export const userDocRef = (uid: string) => doc(usersCollection(), uid);
+
+// The chats collection
+export const chatsCollection = () => collection(firestore, chatSchema.collection).withConverter(chatConverter);
+
+// A chat document
+export const chatDocRef = (chatId: string) => doc(chatsCollection(), chatId);
+
+// The messages collection
+export const messagesCollection = () =>
+  collection(firestore, messageSchema.collection).withConverter(messageConverter);
+
+// A message document
+export const messageDocRef = (messageId: string) => doc(messagesCollection(), messageId);
+
+// Previous versions of an edited message
+export const messageHistoryCollection = (messageId: string) =>
+  collection(firestore, messageSchema.collection, messageId, messageEditSchema.collection)
+    .withConverter(messageEditConverter);
+
+// Collection of typed collection references
+const collections = {
+  usersCollection,
+  userDocRef,
+  chatsCollection,
+  chatDocRef,
+  messagesCollection,
+  messageDocRef,
+  messageHistoryCollection,
+};
+
+export default collections;
@@ -0,0 +1,120 @@
+import { DocumentData } from 'firebase/firestore';
+import { Attachment } from '../services/attachments';
+import {
+  ModelSchema,
+  createConverter,
+  readDate,
+  readOptionalDate,
+  readOptionalString,
+  readString,
+} from './schema';
+import schemaVersions from './schemaVersions.json';
+
+// Quoted message stored on a reply. The text is copied when the reply is
+// sent, so the quote still renders if the original isn't loaded.
+export interface MessageReply {
+  messageId: string;
+  text: string;
+  senderId: string;
+  senderName: string;
+}
+
+// A chat message, stored at messages/{messageId}
+export interface Message {
+  id?: string;
+  text: string;
+  createdAt: Date;
+  senderId: string;
+  senderName: string;
+  chatId: string;
+  // Uploaded images and files (see services/attachments)
+  attachments?: Attachment[];
+  // Snapshot of the message this one replies to
+  replyTo?: MessageReply;
+  // Users who reacted, keyed by emoji
+  reactions?: Record<string, string[]>;
+  // Set when the sender edited the message (see getMessageHistory)
+  editedAt?: Date;
+  // Deleted messages are kept as tombstones without their content
+  deleted?: boolean;
+  // Search index (see getSearchKeywords); written but not read back
+  keywords?: string[];
+  // True while the write is only in the local cache (e.g. sent offline)
+  pending?: boolean;
+}
+
+// A previous version of an edited message, stored at messages/{messageId}/history/{editId}
+export interface MessageEdit {
+  id?: string;
+  text: string;
+  editedAt: Date;
+}
+
+// Build the quote of a reply from stored data
+const toMessageReply = (data: DocumentData): MessageReply => ({
+  messageId: readString(data, 'messageId'),
+  text: readString(data, 'text'),
+  senderId: readString(data, 'senderId'),
+  senderName: readString(data, 'senderName'),
+});
+
+export const messageSchema: ModelSchema<Message> = {
+  collection: 'messages',
+  version: schemaVersions.messages,
+  migrations: [
+    // Messages written before versioning already have the version 1 fields
+    (data) => data,
+  ],
+  fields: [
+    'text', 'createdAt', 'senderId', 'senderName', 'chatId', 'attachments', 'replyTo', 'reactions',
+    'editedAt', 'deleted', 'keywords',
+  ],
+  fromData: (id, data, snapshot) => {
+    const senderId = readString(data, 'senderId');
+    return {
+      id,
+      text: readOptionalString(data, 'text') || '',
+      createdAt: readDate(data, 'createdAt'),
+      senderId,
+      senderName: readOptionalString(data, 'senderName') || `User-${senderId.substring(0, 5)}`,
+      chatId: readString(data, 'chatId'),
+      attachments: Array.isArray(data.attachments) ? data.attachments : [],
+      replyTo: data.replyTo ? toMessageReply(data.replyTo) : undefined,
+      reactions: data.reactions || {},
+      editedAt: readOptionalDate(data, 'editedAt'),
+      deleted: data.deleted === true,
+      pending: snapshot.metadata.hasPendingWrites,
+    };
+  },
+};
+
+export const messageConverter = createConverter(messageSchema);
+
+// Edit history is a subcollection, which scripts/migrate.js doesn't migrate, so
+// its version isn't in schemaVersions.json
+export const messageEditSchema: ModelSchema<MessageEdit> = {
+  collection: 'history',
+  version: 1,
+  migrations: [
+    // Edits written before versioning already have the version 1 fields
+    (data) => data,
+  ],
+  fields: ['text', 'editedAt'],
+  fromData: (id, data) => ({
+    id,
+    text: readOptionalString(data, 'text') || '',
+    editedAt: readDate(data, 'editedAt'),
+  }),
+};
+
+export const messageEditConverter = createConverter(messageEditSchema);
+
+// Collection of message model helpers
+const messageModel = {
+  messageSchema,
+  messageConverter,
+  messageEditSchema,
+  messageEditConverter,
+};
+
+export default messageModel;
@@ -0,0 +1,181 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  SetOptions,
+  SnapshotOptions,
+  Timestamp,
+} from 'firebase/firestore';
+
+// Upgrades a document's stored data from one schema version to the next
+export type Migration = (data: DocumentData) => DocumentData;
+
+// How a model is stored in its collection
+export interface ModelSchema<Model> {
+  collection: string;
+  // Version stamped on every document written in full. Top-level collections
+  // take it from schemaVersions.json, which scripts/migrate.js reads too.
+  version: number;
+  // migrations[n] upgrades a version n document to version n + 1. Documents
+  // written before versioning have no schemaVersion and count as version 0.
+  // Reads migrate on the fly; scripts/migrate.js upgrades the stored documents.
+  migrations: Migration[];
+  // Fields stored on the document; anything else on the model (its ID,
+  // values derived by the app) is never written
+  fields: (keyof Model & string)[];
+  // Build the model from up-to-date stored data, throwing if it is invalid
+  fromData: (id: string, data: DocumentData, snapshot: QueryDocumentSnapshot) => Model;
+}
+
+// Get the schema version a document was written with
+export const getSchemaVersion = (data: DocumentData): number => {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+// Bring stored data up to the schema's current version. Documents written by a
+// newer version of the app are read as they are.
+export const migrateData = <Model>(schema: ModelSchema<Model>, data: DocumentData): DocumentData => {
+  let migrated = data;
+  for (let version = getSchemaVersion(data); version < schema.version; version++) {
+    const migration = schema.migrations[version];
+    if (!migration) throw new Error(`No ${schema.collection} migration from schema version ${version}`);
+    migrated = { ...migration(migrated), schemaVersion: version + 1 };
+  }
+  return migrated;
+};
+
+// Create the converter that every read and write of a collection goes through
+export const createConverter = <Model extends object>(schema: ModelSchema<Model>): FirestoreDataConverter<Model> => ({
+  toFirestore(model: PartialWithFieldValue<Model>, options?: SetOptions): DocumentData {
+    const data: DocumentData = {};
+    schema.fields.forEach(field => {
+      const value = (model as Record<string, unknown>)[field];
+      if (value !== undefined) data[field] = value;
+    });
+
+    // Merges only change the fields they name, so only full writes are stamped
+    if (!options) data.schemaVersion = schema.version;
+    return data;
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Model {
+    try {
+      // Pending server timestamps are estimated so local writes sort correctly
+      const data = migrateData(schema, snapshot.data({ serverTimestamps: 'estimate', ...options }));
+      return schema.fromData(snapshot.id, data, snapshot);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid document ${schema.collection}/${snapshot.id}: ${reason}`);
+    }
+  },
+});
+
+// Get the models of a query snapshot, leaving out (and logging) invalid documents
+// so one bad document doesn't hide the rest of a list
+export const readDocs = <Model>(snapshot: QuerySnapshot<Model>): Model[] => {
+  const models: Model[] = [];
+  snapshot.docs.forEach(modelDoc => {
+    try {
+      models.push(modelDoc.data());
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+    }
+  });
+  return models;
+};
+
+// Get the model of a document snapshot, or undefined (logging why) if it is missing or invalid
+export const readDoc = <Model>(snapshot: DocumentSnapshot<Model>): Model | undefined => {
+  try {
+    return snapshot.data();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return undefined;
+  }
+};
+
+// Read a required string field
+export const readString = (data: DocumentData, field: string): string => {
+  const value = data[field];
+  if (typeof value !== 'string') throw new Error(`${field} must be a string`);
+  return value;
+};
+
+// Read an optional string field; missing and null both read as null
+export const readOptionalString = (data: DocumentData, field: string): string | null => {
+  const value = data[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new Error(`${field} must be a string`);
+  return value;
+};
+
+// Read a required boolean field
+export const readBoolean = (data: DocumentData, field: string): boolean => {
+  const value = data[field];
+  if (typeof value !== 'boolean') throw new Error(`${field} must be a boolean`);
+  return value;
+};
+
+// Read a list of strings, such as user IDs; a missing optional list reads as empty
+export const readStringList = (data: DocumentData, field: string, required = true): string[] => {
+  const value = data[field];
+  if (value === undefined && !required) return [];
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return value;
+};
+
+// Read a map of strings, such as participant names; a missing optional map reads as empty
+export const readStringMap = (data: DocumentData, field: string, required = true): Record<string, string> => {
+  const value = data[field];
+  if (value === undefined && !required) return {};
+  if (!value || typeof value !== 'object' || !Object.values(value).every(item => typeof item === 'string')) {
+    throw new Error(`${field} must be a map of strings`);
+  }
+  return value;
+};
+
+// Convert a stored timestamp to a Date
+const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  return undefined;
+};
+
+// Read a required timestamp field
+export const readDate = (data: DocumentData, field: string): Date => {
+  const date = toDate(data[field]);
+  if (!date) throw new Error(`${field} must be a timestamp`);
+  return date;
+};
+
+// Read an optional timestamp field
+export const readOptionalDate = (data: DocumentData, field: string): Date | undefined => {
+  if (data[field] === undefined || data[field] === null) return undefined;
+  return readDate(data, field);
+};
+
+// Read a map of timestamps, such as when each participant last read a chat
+export const readDateMap = (data: DocumentData, field: string): Record<string, Date> => {
+  const result: Record<string, Date> = {};
+  Object.entries(data[field] || {}).forEach(([key, value]) => {
+    const date = toDate(value);
+    if (date) result[key] = date;
+  });
+  return result;
+};
+
+// Collection of schema helpers
+const schemaServices = {
+  getSchemaVersion,
+  migrateData,
+  createConverter,
+  readDoc,
+  readDocs,
+};
+
+export default schemaServices;
@@ -0,0 +1,101 @@
+import { DocumentData } from 'firebase/firestore';
+import { PresenceState } from '../services/presence';
+import {
+  ModelSchema,
+  createConverter,
+  readBoolean,
+  readOptionalDate,
+  readOptionalString,
+} from './schema';
+import schemaVersions from './schemaVersions.json';
+
+// A user's profile, stored at users/{uid}
+export interface User {
+  uid: string;
+  displayName: string;
+  // Unique handle claimed through services/usernames
+  username?: string | null;
+  email?: string | null;
+  photoURL?: string | null;
+  isAnonymous: boolean;
+  lastActive?: Date;
+  // Last presence state written by the user's app (see services/presence)
+  presence?: PresenceState;
+  // Code others can use to add the user as a contact (see services/contacts)
+  shareCode?: string;
+  createdAt?: Date;
+  lastLogin?: Date;
+  // When a guest account was secured with an email and password
+  securedAt?: Date;
+  // Set on an orphaned guest account once it is merged into another account
+  // (see services/accountRecovery)
+  mergedInto?: string;
+  mergedAt?: Date;
+}
+
+const PRESENCE_STATES: PresenceState[] = ['online', 'away', 'offline'];
+
+// Get the name shown for a user without a display name
+export const getDefaultDisplayName = (uid: string) => `User-${uid.substring(0, 5)}`;
+
+// Profile shown for a user whose document can't be read (yet)
+export const getPlaceholderUser = (uid: string): User => ({
+  uid,
+  displayName: getDefaultDisplayName(uid),
+  isAnonymous: true,
+  presence: 'offline',
+});
+
+// Build a User from stored data
+const toUser = (uid: string, data: DocumentData): User => {
+  const presence = data.presence ?? 'offline';
+  if (!PRESENCE_STATES.includes(presence)) throw new Error(`unknown presence "${presence}"`);
+
+  return {
+    uid,
+    displayName: readOptionalString(data, 'displayName') || getDefaultDisplayName(uid),
+    username: readOptionalString(data, 'username'),
+    email: readOptionalString(data, 'email'),
+    photoURL: readOptionalString(data, 'photoURL'),
+    isAnonymous: readBoolean(data, 'isAnonymous'),
+    lastActive: readOptionalDate(data, 'lastActive'),
+    presence,
+    shareCode: readOptionalString(data, 'shareCode') ?? undefined,
+    createdAt: readOptionalDate(data, 'createdAt'),
+    lastLogin: readOptionalDate(data, 'lastLogin'),
+    securedAt: readOptionalDate(data, 'securedAt'),
+    mergedInto: readOptionalString(data, 'mergedInto') ?? undefined,
+    mergedAt: readOptionalDate(data, 'mergedAt'),
+  };
+};
+
+export const userSchema: ModelSchema<User> = {
+  collection: 'users',
+  version: schemaVersions.users,
+  migrations: [
+    // Version 1 always stores isAnonymous. Older profiles only had it once the
+    // account was secured; until then the account had no email.
+    // (scripts/migrations/001-users-v1.js upgrades stored profiles)
+    (data) => ({
+      ...data,
+      isAnonymous: typeof data.isAnonymous === 'boolean' ? data.isAnonymous : !data.email,
+    }),
+  ],
+  fields: [
+    'uid', 'displayName', 'username', 'email', 'photoURL', 'isAnonymous', 'lastActive', 'presence',
+    'shareCode', 'createdAt', 'lastLogin', 'securedAt', 'mergedInto', 'mergedAt',
+  ],
+  fromData: (id, data) => toUser(id, data),
+};
+
+export const userConverter = createConverter(userSchema);
+
+// Collection of user model helpers
+const userModel = {
+  userSchema,
+  userConverter,
+  getDefaultDisplayName,
+  getPlaceholderUser,
+};
+
+export default userModel;
@@ -1,21 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, FlatList, TouchableOpacity, TextInput, ActivityIndicator, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
-import { collection, query, where, getDocs, onSnapshot, orderBy, limit } from 'firebase/firestore';
-import { firestore } from './firebase';
 import { useAuthContext } from './contexts/AuthContext';
-import { createChat } from './services/chat';
-
-interface User {
-  uid: string;
-  displayName: string;
-}
+import { createChat, createGroupChat } from './services/chat';
+import { useBlockedUsers } from './services/moderation';
+import { useContacts } from './services/contacts';
+import { User } from './services/user';
+import { Ionicons } from '@expo/vector-icons';
 
 export default function NewChatScreen() {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { contacts: users, loading: contactsLoading } = useContacts();
+  const [creating, setCreating] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isGroupMode, setIsGroupMode] = useState(false);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [groupName, setGroupName] = useState('');
   const { user, loading: authLoading } = useAuthContext();
+  const { blockedIds } = useBlockedUsers();
   const router = useRouter();
 
   // Redirect to login if not authenticated
@@ -26,79 +27,20 @@ export default function NewChatScreen() {
     }
   }, [user, authLoading, router]);
 
-  useEffect(() => {
-    // Fetch all users except the current user
-    const fetchUsers = async () => {
-      if (!user) {
-        console.log('No current user, cannot fetch other users');
-        setLoading(false);
-        return;
-      }
-
-      console.log('Current user:', user.uid, user.displayName || 'No display name');
-      
-      try {
-        console.log('Fetching users from Firestore...');
-        setLoading(true);
-        
-        // Create a real-time listener for users
-        const usersRef = collection(firestore, 'users');
-        const usersQuery = query(
-          usersRef,
-          orderBy('lastActive', 'desc'),
-          limit(50)
-        );
-        
-        const unsubscribe = onSnapshot(
-          usersQuery,
-          (snapshot) => {
-            const usersList: User[] = [];
-            console.log(`Found ${snapshot.size} total users in database`);
-            
-            snapshot.forEach(doc => {
-              const userData = doc.data();
-              console.log(`User data for ${doc.id}:`, userData);
-              
-              // Don't include the current user
-              if (userData.uid !== user.uid) {
-                usersList.push({
-                  uid: userData.uid,
-                  displayName: userData.displayName || `User-${userData.uid.substring(0, 5)}`,
-                });
-              }
-            });
-            
-            console.log(`Filtered to ${usersList.length} other users (excluding current user)`);
-            setUsers(usersList);
-            setLoading(false);
-          },
-          (error) => {
-            console.error('Error fetching users:', error);
-            Alert.alert('Error', 'Failed to load users. Please try again.');
-            setLoading(false);
-          }
-        );
-        
-        // Cleanup subscription
-        return () => unsubscribe();
-      } catch (error) {
-        console.error('Error setting up users listener:', error);
-        setLoading(false);
-      }
-    };
-
-    fetchUsers();
-  }, [user]);
+  const loading = contactsLoading || creating;
 
-  // Filter users based on search query
-  const filteredUsers = users.filter(u => 
-    u.displayName.toLowerCase().includes(searchQuery.toLowerCase())
+  // Filter contacts based on search query, leaving out blocked users
+  const normalizedQuery = searchQuery.trim().replace(/^@/, '').toLowerCase();
+  const filteredUsers = users.filter(u =>
+    !blockedIds.includes(u.uid) &&
+    (u.displayName.toLowerCase().includes(normalizedQuery) ||
+      !!u.username?.toLowerCase().startsWith(normalizedQuery))
   );
 
   // Start a new chat with a user
   const startChat = async (selectedUser: User) => {
     try {
-      setLoading(true);
+      setCreating(true);
       
       if (!user) {
         throw new Error('You must be logged in to start a chat');
@@ -128,7 +70,62 @@ export default function NewChatScreen() {
       console.error('Error starting chat:', error);
       Alert.alert('Error', 'Failed to start chat. Please try again.');
     } finally {
-      setLoading(false);
+      setCreating(false);
+    }
+  };
+
+  // Toggle a user's selection while building a group
+  const toggleSelectedUser = (userId: string) => {
+    setSelectedUserIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
+
+  // Switch between 1:1 and group creation
+  const toggleGroupMode = () => {
+    setIsGroupMode(prev => !prev);
+    setSelectedUserIds([]);
+    setGroupName('');
+  };
+
+  // Create a group chat with the selected users
+  const startGroupChat = async () => {
+    try {
+      if (!user) {
+        throw new Error('You must be logged in to start a chat');
+      }
+
+      if (!groupName.trim()) {
+        Alert.alert('Group Name', 'Please enter a name for the group.');
+        return;
+      }
+
+      if (selectedUserIds.length === 0) {
+        Alert.alert('Members', 'Please select at least one member.');
+        return;
+      }
+
+      setCreating(true);
+
+      const participantNames: Record<string, string> = {};
+      users
+        .filter(u => selectedUserIds.includes(u.uid))
+        .forEach(u => {
+          participantNames[u.uid] = u.displayName;
+        });
+
+      const chatId = await createGroupChat(groupName, selectedUserIds, participantNames);
+      console.log('Group chat created with ID:', chatId);
+
+      router.push({
+        pathname: '/chat/[id]',
+        params: { id: chatId }
+      });
+    } catch (error) {
+      console.error('Error creating group chat:', error);
+      Alert.alert('Error', 'Failed to create group. Please try again.');
+    } finally {
+      setCreating(false);
     }
   };
 
@@ -142,8 +139,27 @@ export default function NewChatScreen() {
         >
           <Text className="text-blue-500">Back</Text>
         </TouchableOpacity>
-        <Text className="text-xl font-bold text-gray-800 dark:text-white">New Chat</Text>
+        <Text className="flex-1 text-xl font-bold text-gray-800 dark:text-white">
+          {isGroupMode ? 'New Group' : 'New Chat'}
+        </Text>
+        <TouchableOpacity onPress={toggleGroupMode}>
+          <Text className="text-blue-500">{isGroupMode ? 'Cancel' : 'New Group'}</Text>
+        </TouchableOpacity>
       </View>
+
+      {/* Group Name */}
+      {isGroupMode && (
+        <View className="px-4 pt-4">
+          <TextInput
+            className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white"
+            placeholder="Group name"
+            placeholderTextColor="#9CA3AF"
+            value={groupName}
+            onChangeText={setGroupName}
+            maxLength={50}
+          />
+        </View>
+      )}
       
       {/* Current User Info */}
       <View className="px-4 py-2 bg-gray-100 dark:bg-gray-800">
@@ -159,7 +175,7 @@ export default function NewChatScreen() {
       <View className="p-4">
         <TextInput
           className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white"
-          placeholder="Search users..."
+          placeholder="Search contacts..."
           placeholderTextColor="#9CA3AF"
           value={searchQuery}
           onChangeText={setSearchQuery}
@@ -174,16 +190,13 @@ export default function NewChatScreen() {
       ) : filteredUsers.length === 0 ? (
         <View className="flex-1 items-center justify-center p-4">
           <Text className="text-gray-500 dark:text-gray-400 text-center">
-            {searchQuery ? 'No users found matching your search.' : 'No other users available.'}
+            {searchQuery ? 'No contacts found matching your search.' : 'You have no contacts yet.'}
           </Text>
           <TouchableOpacity
             className="mt-4 bg-blue-500 px-4 py-2 rounded-lg"
-            onPress={() => {
-              setLoading(true);
-              setTimeout(() => setLoading(false), 1000);
-            }}
+            onPress={() => router.push('/add-contact')}
           >
-            <Text className="text-white">Refresh</Text>
+            <Text className="text-white">Add Contact</Text>
           </TouchableOpacity>
         </View>
       ) : (
@@ -192,19 +205,45 @@ export default function NewChatScreen() {
           keyExtractor={(item) => item.uid}
           renderItem={({ item }) => (
             <TouchableOpacity
-              className="p-4 border-b border-gray-200 dark:border-gray-800"
-              onPress={() => startChat(item)}
+              className="p-4 border-b border-gray-200 dark:border-gray-800 flex-row items-center"
+              onPress={() => isGroupMode ? toggleSelectedUser(item.uid) : startChat(item)}
             >
-              <Text className="text-lg text-gray-800 dark:text-white">
-                {item.displayName}
-              </Text>
-              <Text className="text-xs text-gray-500 dark:text-gray-400">
-                ID: {item.uid.substring(0, 8)}...
-              </Text>
+              <View className="flex-1">
+                <Text className="text-lg text-gray-800 dark:text-white">
+                  {item.displayName}
+                </Text>
+                <Text className="text-xs text-gray-500 dark:text-gray-400">
+                  {item.username ? `@${item.username}` : `ID: ${item.uid.substring(0, 8)}...`}
+                </Text>
+              </View>
+              {isGroupMode && (
+                <Ionicons
+                  name={selectedUserIds.includes(item.uid) ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={24}
+                  color={selectedUserIds.includes(item.uid) ? '#3B82F6' : '#9CA3AF'}
+                />
+              )}
             </TouchableOpacity>
           )}
         />
       )}
+
+      {/* Create Group Button */}
+      {isGroupMode && !loading && (
+        <View className="p-4 border-t border-gray-200 dark:border-gray-800">
+          <TouchableOpacity
+            className={`p-4 rounded-lg items-center ${
+              selectedUserIds.length === 0 || !groupName.trim() ? 'bg-gray-300 dark:bg-gray-700' : 'bg-blue-500'
+            }`}
+            onPress={startGroupChat}
+            disabled={selectedUserIds.length === 0 || !groupName.trim()}
+          >
+            <Text className="text-white font-bold">
+              Create Group ({selectedUserIds.length} selected)
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 }
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, FlatList, TouchableOpacity, TextInput, ActivityIndicator, ScrollView, SafeAreaView } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthContext } from './contexts/AuthContext';
+import { useChats, getChatTitle } from './services/chat';
+import { useMessageSearch, getSearchSnippet, SearchResult } from './services/search';
+
+export default function SearchScreen() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [chatFilter, setChatFilter] = useState<string | null>(null);
+  const [senderFilter, setSenderFilter] = useState<string | null>(null);
+  const { user, loading: authLoading } = useAuthContext();
+  const { chats } = useChats();
+  const { results, loading, error } = useMessageSearch(chats, searchQuery, {
+    chatId: chatFilter,
+    senderId: senderFilter,
+  });
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      console.log('User not authenticated, redirecting to login');
+      router.replace('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Chats by ID, for titles in the results
+  const chatsById = useMemo(() => new Map(chats.map(chat => [chat.id, chat])), [chats]);
+
+  // Senders to filter by: members of the selected chat, or of every chat
+  const senders = useMemo(() => {
+    const names: Record<string, string> = {};
+    chats
+      .filter(chat => !chatFilter || chat.id === chatFilter)
+      .forEach(chat => Object.assign(names, chat.participantNames));
+    return Object.entries(names)
+      .map(([uid, name]) => ({ uid, name: uid === user?.uid ? 'You' : name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [chats, chatFilter, user]);
+
+  // Drop a sender filter that no longer applies to the selected chat
+  useEffect(() => {
+    if (senderFilter && !senders.some(sender => sender.uid === senderFilter)) {
+      setSenderFilter(null);
+    }
+  }, [senders, senderFilter]);
+
+  // Open the chat scrolled to the message
+  const openResult = (result: SearchResult) => {
+    router.push({
+      pathname: '/chat/[id]',
+      params: { id: result.chatId, messageId: result.message.id }
+    });
+  };
+
+  // Format the date of a result
+  const formatDate = (date: Date) => {
+    const now = new Date();
+    if (date.toDateString() === now.toDateString()) {
+      return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+    }
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  // A row of selectable filter chips
+  const renderChips = (
+    options: { id: string | null; label: string }[],
+    selected: string | null,
+    onSelect: (id: string | null) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} className="px-2 py-1">
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.id || 'all'}
+          className={`px-3 py-1 mx-1 rounded-full ${
+            selected === option.id ? 'bg-blue-500' : 'bg-gray-200 dark:bg-gray-800'
+          }`}
+          onPress={() => onSelect(option.id)}
+        >
+          <Text className={selected === option.id ? 'text-white' : 'text-gray-800 dark:text-white'}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  if (authLoading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#0000ff" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+      <View className="p-4 border-b border-gray-200 dark:border-gray-800">
+        <View className="flex-row items-center bg-gray-100 dark:bg-gray-800 rounded-lg px-3">
+          <Ionicons name="search" size={18} color="#9CA3AF" />
+          <TextInput
+            className="flex-1 p-3 text-gray-800 dark:text-white"
+            placeholder="Search messages..."
+            placeholderTextColor="#9CA3AF"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {!!searchQuery && (
+            <TouchableOpacity onPress={() => setSearchQuery('')}>
+              <Ionicons name="close-circle" size={18} color="#9CA3AF" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {/* Filters */}
+      <View className="py-2 border-b border-gray-200 dark:border-gray-800">
+        {renderChips(
+          [
+            { id: null, label: 'All chats' },
+            ...chats.map(chat => ({ id: chat.id!, label: getChatTitle(chat, user.uid) })),
+          ],
+          chatFilter,
+          setChatFilter
+        )}
+        {renderChips(
+          [
+            { id: null, label: 'Anyone' },
+            ...senders.map(sender => ({ id: sender.uid, label: sender.name })),
+          ],
+          senderFilter,
+          setSenderFilter
+        )}
+      </View>
+
+      {loading ? (
+        <View className="p-4 items-center">
+          <ActivityIndicator size="small" color="#0000ff" />
+        </View>
+      ) : error ? (
+        <Text className="p-4 text-center text-red-500">Search failed. Please try again.</Text>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.message.id || `${item.chatId}-${item.message.createdAt}`}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            searchQuery.trim() ? (
+              <Text className="p-4 text-center text-gray-500 dark:text-gray-400">No messages found</Text>
+            ) : (
+              <Text className="p-4 text-center text-gray-500 dark:text-gray-400">
+                Search for words in messages from all your chats
+              </Text>
+            )
+          }
+          renderItem={({ item }) => {
+            const chat = chatsById.get(item.chatId);
+            const sender = item.message.senderId === user.uid ? 'You' : item.message.senderName;
+
+            return (
+              <TouchableOpacity
+                className="p-4 border-b border-gray-200 dark:border-gray-800"
+                onPress={() => openResult(item)}
+              >
+                <View className="flex-row justify-between mb-1">
+                  <Text className="flex-1 font-semibold text-gray-800 dark:text-white" numberOfLines={1}>
+                    {chat ? getChatTitle(chat, user.uid) : 'Chat'}
+                  </Text>
+                  <Text className="text-xs text-gray-500 dark:text-gray-400 ml-2">
+                    {formatDate(item.message.createdAt)}
+                  </Text>
+                </View>
+                <Text className="text-gray-600 dark:text-gray-300" numberOfLines={2}>
+                  <Text className="text-gray-500 dark:text-gray-400">{sender}: </Text>
+                  {getSearchSnippet(item.message.text, searchQuery).map((part, index) => (
+                    <Text
+                      key={index}
+                      className={part.match ? 'font-bold text-gray-900 dark:text-white bg-yellow-200 dark:bg-yellow-700' : ''}
+                    >
+                      {part.text}
+                    </Text>
+                  ))}
+                </Text>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator, SafeAreaView, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthContext, getAuthErrorMessage } from './contexts/AuthContext';
+
+export default function SecureAccountScreen() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user, loading: authLoading, isAnonymous, secureAccount } = useAuthContext();
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      console.log('User not authenticated, redirecting to login');
+      router.replace('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Link the email and password to the current account
+  const handleSecureAccount = async () => {
+    if (!email.trim() || !password) {
+      Alert.alert('Secure Account', 'Please enter an email and a password.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert('Secure Account', 'The passwords don\'t match.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await secureAccount(email, password);
+      Alert.alert(
+        'Account Secured',
+        'Use this email and password to sign back in if you reinstall the app or switch phones.',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      Alert.alert('Error', getAuthErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#0000ff" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  if (!isAnonymous) {
+    return (
+      <SafeAreaView className="flex-1 items-center justify-center p-6 bg-white dark:bg-gray-900">
+        <Ionicons name="shield-checkmark" size={64} color="#34C759" />
+        <Text className="text-lg font-semibold text-gray-800 dark:text-white mt-4">Your account is secured</Text>
+        <Text className="text-gray-500 dark:text-gray-400 mt-2 text-center">
+          Signed in as {user.email}
+        </Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+      <View className="p-4">
+        <Text className="text-gray-600 dark:text-gray-300 mb-4">
+          You are using a guest account, which is lost if you reinstall the app or switch phones.
+          Add an email and password to keep your chats and contacts and sign back in anywhere.
+        </Text>
+
+        <TextInput
+          className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white mb-3"
+          placeholder="Email"
+          placeholderTextColor="#9CA3AF"
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          textContentType="emailAddress"
+        />
+        <TextInput
+          className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white mb-3"
+          placeholder="Password (at least 6 characters)"
+          placeholderTextColor="#9CA3AF"
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          textContentType="newPassword"
+        />
+        <TextInput
+          className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-gray-800 dark:text-white mb-4"
+          placeholder="Confirm password"
+          placeholderTextColor="#9CA3AF"
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          secureTextEntry
+          textContentType="newPassword"
+        />
+
+        <TouchableOpacity
+          className={`p-4 rounded-lg items-center ${saving ? 'bg-gray-300 dark:bg-gray-700' : 'bg-blue-500'}`}
+          onPress={handleSecureAccount}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text className="text-white font-bold">Secure Account</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,364 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  arrayUnion,
+  deleteField,
+  doc,
+  DocumentData,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { firestore } from '../firebase';
+import { chatDocRef, chatsCollection, userDocRef } from '../models/collections';
+import { Chat } from '../models/chat';
+import { readDocs, readOptionalDate, readOptionalString, readString, readStringList } from '../models/schema';
+import { getCurrentUser } from './user';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// The device's recovery key is kept under this AsyncStorage key. Unlike the
+// device ID it is never written to a profile, so only this device knows it.
+const DEVICE_KEY_STORAGE_KEY = 'device_recovery_key';
+
+// Progress of merging an orphaned guest account into the current account
+export type AccountMergeStatus = 'in_progress' | 'completed';
+
+// A guest account previously signed in on this device that can no longer be signed into
+export interface OrphanedAccount {
+  uid: string;
+  displayName: string;
+}
+
+// A merge of an orphaned account's chats into the current account.
+// Stored at accountMerges/{newUid}, so a merge can be resumed after a restart.
+export interface AccountMerge {
+  oldUid: string;
+  oldDisplayName: string;
+  newUid: string;
+  status: AccountMergeStatus;
+  // Chats rewritten so far
+  mergedChatIds: string[];
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+// Merges that are running in this app session, so a resume doesn't start a second pass
+const running = new Map<string, Promise<void>>();
+
+// Display name of the signed-in user
+const getCurrentUserName = (currentUser: { uid: string; displayName: string | null }) => {
+  return currentUser.displayName || `User-${currentUser.uid.substring(0, 5)}`;
+};
+
+// Convert an accountMerges document
+const toAccountMerge = (data: DocumentData): AccountMerge => {
+  const oldUid = readString(data, 'oldUid');
+  return {
+    oldUid,
+    oldDisplayName: readOptionalString(data, 'oldDisplayName') || `User-${oldUid.substring(0, 5)}`,
+    newUid: readString(data, 'newUid'),
+    status: readString(data, 'status') === 'completed' ? 'completed' : 'in_progress',
+    mergedChatIds: readStringList(data, 'mergedChatIds', false),
+    // Pending until the server sets it
+    startedAt: readOptionalDate(data, 'startedAt') || new Date(),
+    completedAt: readOptionalDate(data, 'completedAt'),
+  };
+};
+
+// Get this device's recovery key, creating it the first time
+export const getDeviceKey = async (): Promise<string> => {
+  const storedKey = await AsyncStorage.getItem(DEVICE_KEY_STORAGE_KEY);
+  if (storedKey) return storedKey;
+
+  let key = '';
+  while (key.length < 24) {
+    key += Math.random().toString(36).substring(2);
+  }
+  key = key.substring(0, 24);
+
+  await AsyncStorage.setItem(DEVICE_KEY_STORAGE_KEY, key);
+  console.log('Generated device recovery key');
+  return key;
+};
+
+// Record the current user as the account last signed in on this device
+export const claimDeviceAccount = async (): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    const deviceKey = await getDeviceKey();
+    await setDoc(doc(firestore, 'deviceAccounts', deviceKey), {
+      uid: currentUser.uid,
+      displayName: getCurrentUserName(currentUser),
+      isAnonymous: currentUser.isAnonymous,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error claiming device account:', error);
+    throw error;
+  }
+};
+
+// Refresh the device's account after the current user's details change (e.g.
+// the account was secured), without taking over the device from another account
+export const refreshDeviceAccount = async (): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) return;
+
+  try {
+    const deviceKey = await getDeviceKey();
+    const deviceDoc = await getDoc(doc(firestore, 'deviceAccounts', deviceKey));
+    if (deviceDoc.data()?.uid === currentUser.uid) {
+      await claimDeviceAccount();
+    }
+  } catch (error) {
+    console.error('Error refreshing device account:', error);
+  }
+};
+
+// Find the guest account this device was signed into before the current one, if
+// it was left behind (signing out of a guest account can't be undone). Otherwise
+// the current user becomes the device's account.
+export const findOrphanedAccount = async (): Promise<OrphanedAccount | null> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    const deviceKey = await getDeviceKey();
+    const deviceDoc = await getDoc(doc(firestore, 'deviceAccounts', deviceKey));
+    const previous = deviceDoc.data();
+
+    if (previous && previous.uid !== currentUser.uid && previous.isAnonymous) {
+      console.log('Found orphaned guest account on this device:', previous.uid);
+      return {
+        uid: previous.uid,
+        displayName: previous.displayName || `User-${previous.uid.substring(0, 5)}`,
+      };
+    }
+
+    await claimDeviceAccount();
+    return null;
+  } catch (error) {
+    console.error('Error looking for an orphaned account:', error);
+    throw error;
+  }
+};
+
+// Leave the orphaned account as it is; it won't be offered again on this device
+export const dismissOrphanedAccount = async (): Promise<void> => {
+  console.log('Keeping the orphaned account separate');
+  await claimDeviceAccount();
+};
+
+// Rewrite one chat so the current user takes the old account's place. The
+// chat's mergedAccounts map lets screens show the old account's messages as ours.
+const mergeChat = async (merge: AccountMerge, chat: Chat, displayName: string) => {
+  const { oldUid, newUid } = merge;
+  const replace = (ids: string[]) => Array.from(new Set(ids.map(id => (id === oldUid ? newUid : id))));
+
+  const updates: Record<string, any> = {
+    participants: replace(chat.participants),
+    [`participantNames.${oldUid}`]: deleteField(),
+    [`participantNames.${newUid}`]: displayName,
+    [`mergedAccounts.${oldUid}`]: newUid,
+  };
+  if (chat.admins && chat.admins.length > 0) {
+    updates.admins = replace(chat.admins);
+  }
+  if (chat.lastReadAt?.[oldUid]) {
+    updates[`lastReadAt.${oldUid}`] = deleteField();
+    updates[`lastReadAt.${newUid}`] = chat.lastReadAt[oldUid];
+  }
+  if (chat.unreadCounts?.[oldUid] !== undefined) {
+    updates[`unreadCounts.${oldUid}`] = deleteField();
+    updates[`unreadCounts.${newUid}`] = (chat.unreadCounts[newUid] || 0) + chat.unreadCounts[oldUid];
+  }
+
+  const batch = writeBatch(firestore);
+  batch.update(chatDocRef(chat.id!), updates);
+  batch.update(doc(firestore, 'accountMerges', newUid), { mergedChatIds: arrayUnion(chat.id) });
+  await batch.commit();
+};
+
+// Move every chat the old account is still in over to the current account, then
+// mark the old account as merged. Chats already moved no longer match the query,
+// so running this again after an interruption picks up where it stopped.
+const runAccountMerge = async (merge: AccountMerge): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser || currentUser.uid !== merge.newUid) throw new Error('This merge belongs to another account');
+
+  const displayName = getCurrentUserName(currentUser);
+  const snapshot = await getDocs(query(
+    chatsCollection(),
+    where('participants', 'array-contains', merge.oldUid)
+  ));
+  console.log(`Merging ${snapshot.size} chats from ${merge.oldUid}`);
+
+  for (const chat of readDocs(snapshot)) {
+    await mergeChat(merge, chat, displayName);
+  }
+
+  const batch = writeBatch(firestore);
+  batch.update(userDocRef(merge.oldUid), {
+    mergedInto: merge.newUid,
+    mergedAt: serverTimestamp(),
+  });
+  batch.update(doc(firestore, 'accountMerges', merge.newUid), {
+    status: 'completed',
+    completedAt: serverTimestamp(),
+  });
+  await batch.commit();
+  console.log(`Merged account ${merge.oldUid} into ${merge.newUid}`);
+};
+
+// Run a merge unless it is already running in this session
+const runOnce = (merge: AccountMerge): Promise<void> => {
+  const existing = running.get(merge.newUid);
+  if (existing) return existing;
+
+  const promise = runAccountMerge(merge).finally(() => running.delete(merge.newUid));
+  running.set(merge.newUid, promise);
+  return promise;
+};
+
+// Merge an orphaned guest account's chats into the current account
+export const mergeOrphanedAccount = async (orphan: OrphanedAccount): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    const deviceKey = await getDeviceKey();
+    console.log(`Starting merge of ${orphan.uid} into ${currentUser.uid}`);
+
+    // The device's account moves to the current user in the same batch, which
+    // is how firestore.rules checks the old account was signed in on this device
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, 'accountMerges', currentUser.uid), {
+      oldUid: orphan.uid,
+      oldDisplayName: orphan.displayName,
+      newUid: currentUser.uid,
+      deviceKey,
+      status: 'in_progress',
+      mergedChatIds: [],
+      startedAt: serverTimestamp(),
+    });
+    batch.set(doc(firestore, 'deviceAccounts', deviceKey), {
+      uid: currentUser.uid,
+      displayName: getCurrentUserName(currentUser),
+      isAnonymous: currentUser.isAnonymous,
+      updatedAt: serverTimestamp(),
+    });
+    await batch.commit();
+
+    await runOnce({
+      oldUid: orphan.uid,
+      oldDisplayName: orphan.displayName,
+      newUid: currentUser.uid,
+      status: 'in_progress',
+      mergedChatIds: [],
+      startedAt: new Date(),
+    });
+  } catch (error) {
+    console.error('Error merging account:', error);
+    throw error;
+  }
+};
+
+// Finish a merge that was interrupted, e.g. by the app being closed
+export const resumeAccountMerge = async (): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) return;
+
+  try {
+    const mergeDoc = await getDoc(doc(firestore, 'accountMerges', currentUser.uid));
+    if (!mergeDoc.exists() || mergeDoc.data().status !== 'in_progress') return;
+
+    console.log('Resuming interrupted account merge');
+    await runOnce(toAccountMerge(mergeDoc.data()));
+  } catch (error) {
+    console.error('Error resuming account merge:', error);
+  }
+};
+
+// Hook to offer recovering an orphaned guest account and follow a merge's progress
+export const useAccountRecovery = () => {
+  const [orphan, setOrphan] = useState<OrphanedAccount | null>(null);
+  const [merge, setMerge] = useState<AccountMerge | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setOrphan(null);
+      setLoading(false);
+      return () => {};
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    findOrphanedAccount()
+      .then((found) => {
+        if (!cancelled) setOrphan(found);
+      })
+      .catch(() => {
+        if (!cancelled) setOrphan(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setMerge(null);
+      return () => {};
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'accountMerges', userId),
+      (mergeDoc) => setMerge(mergeDoc.exists() ? toAccountMerge(mergeDoc.data()) : null),
+      (err) => console.error('Error fetching account merge:', err)
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Start a merge, or leave the orphaned account alone
+  const mergeAccount = async () => {
+    if (!orphan) return;
+    await mergeOrphanedAccount(orphan);
+    setOrphan(null);
+  };
+
+  const dismiss = async () => {
+    await dismissOrphanedAccount();
+    setOrphan(null);
+  };
+
+  return { orphan, merge, loading, mergeAccount, dismiss };
+};
+
+// Collection of account recovery services
+const accountRecoveryServices = {
+  getDeviceKey,
+  claimDeviceAccount,
+  refreshDeviceAccount,
+  findOrphanedAccount,
+  dismissOrphanedAccount,
+  mergeOrphanedAccount,
+  resumeAccountMerge,
+  useAccountRecovery,
+};
+
+export default accountRecoveryServices;
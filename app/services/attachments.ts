@@ -0,0 +1,186 @@
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import * as ImagePicker from 'expo-image-picker';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { storage } from '../firebase';
+
+// Largest file that can be attached to a message (must match storage.rules)
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+// Width of the preview image stored next to each image attachment
+const THUMBNAIL_WIDTH = 320;
+
+// Kind of attachment, used to pick how it is rendered
+export type AttachmentKind = 'image' | 'file';
+
+// Attachment metadata stored on a message
+export interface Attachment {
+  kind: AttachmentKind;
+  url: string;
+  storagePath: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+}
+
+// A file picked on this device that has not been uploaded yet
+export interface LocalAttachment {
+  uri: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  size?: number;
+  width?: number;
+  height?: number;
+}
+
+// Storage folder holding a message's attachments
+export const getAttachmentFolder = (chatId: string, messageId: string): string => {
+  return `chat_attachments/${chatId}/${messageId}`;
+};
+
+// Storage path of an image's thumbnail, stored next to the full image
+const getThumbnailPath = (storagePath: string): string => {
+  return storagePath.replace(/[^/]+$/, name => `thumb_${name}`);
+};
+
+// Let the user pick an image from their library
+export const pickImageAttachment = async (): Promise<LocalAttachment | null> => {
+  const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (status !== 'granted') {
+    throw new Error('We need permission to access your photos to send pictures.');
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: 0.8,
+  });
+
+  if (result.canceled || !result.assets || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  return {
+    uri: asset.uri,
+    kind: 'image',
+    name: asset.fileName || `image-${Date.now()}.jpg`,
+    mimeType: asset.mimeType || 'image/jpeg',
+    size: asset.fileSize,
+    width: asset.width,
+    height: asset.height,
+  };
+};
+
+// Upload a blob to storage, reporting progress as a fraction between 0 and 1
+const uploadBlob = (
+  path: string,
+  blob: Blob,
+  contentType: string,
+  onProgress?: (progress: number) => void
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const task = uploadBytesResumable(ref(storage, path), blob, { contentType });
+
+    task.on(
+      'state_changed',
+      (snapshot) => {
+        if (snapshot.totalBytes > 0) {
+          onProgress?.(snapshot.bytesTransferred / snapshot.totalBytes);
+        }
+      },
+      (error) => reject(error),
+      () => {
+        getDownloadURL(task.snapshot.ref).then(resolve, reject);
+      }
+    );
+  });
+};
+
+// Upload a picked file (and a thumbnail for images) under the message's storage folder
+export const uploadAttachment = async (
+  chatId: string,
+  messageId: string,
+  local: LocalAttachment,
+  onProgress?: (progress: number) => void
+): Promise<Attachment> => {
+  try {
+    console.log(`Uploading attachment ${local.name} for message ${messageId}`);
+
+    // Convert URI to blob
+    const response = await fetch(local.uri);
+    const blob = await response.blob();
+    if (blob.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error('Attachments can be at most 20 MB.');
+    }
+
+    const storagePath = `${getAttachmentFolder(chatId, messageId)}/${local.name}`;
+    const url = await uploadBlob(storagePath, blob, local.mimeType, onProgress);
+
+    const attachment: Attachment = {
+      kind: local.kind,
+      url,
+      storagePath,
+      name: local.name,
+      mimeType: local.mimeType,
+      size: blob.size,
+    };
+
+    if (local.kind === 'image') {
+      if (local.width) attachment.width = local.width;
+      if (local.height) attachment.height = local.height;
+
+      // A small preview keeps chat scrolling cheap; the full image loads in the viewer
+      try {
+        const thumbnail = await manipulateAsync(
+          local.uri,
+          [{ resize: { width: THUMBNAIL_WIDTH } }],
+          { compress: 0.6, format: SaveFormat.JPEG }
+        );
+        const thumbnailBlob = await (await fetch(thumbnail.uri)).blob();
+        attachment.thumbnailUrl = await uploadBlob(getThumbnailPath(storagePath), thumbnailBlob, 'image/jpeg');
+      } catch (error) {
+        console.error('Error creating attachment thumbnail, using full image:', error);
+      }
+    }
+
+    console.log('Attachment uploaded:', storagePath);
+    return attachment;
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+};
+
+// Delete the stored files of attachments (e.g. when their message is deleted)
+export const deleteAttachmentFiles = async (attachments: Attachment[]): Promise<void> => {
+  const paths = attachments.flatMap(attachment =>
+    attachment.thumbnailUrl ? [attachment.storagePath, getThumbnailPath(attachment.storagePath)] : [attachment.storagePath]
+  );
+
+  await Promise.all(paths.map(path =>
+    deleteObject(ref(storage, path)).catch(error => {
+      console.error(`Error deleting attachment file ${path}:`, error);
+    })
+  ));
+};
+
+// Format a byte count for display
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Collection of attachment services
+const attachmentServices = {
+  pickImageAttachment,
+  uploadAttachment,
+  deleteAttachmentFiles,
+  getAttachmentFolder,
+  formatFileSize,
+};
+
+export default attachmentServices;
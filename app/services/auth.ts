@@ -7,22 +7,16 @@ import {
   User
 } from 'firebase/auth';
 import { 
-  doc, 
   setDoc, 
   getDoc, 
   serverTimestamp, 
-  getFirestore 
+  getFirestore,
+  WithFieldValue
 } from 'firebase/firestore';
 import { useState, useEffect } from 'react';
-import { auth, firestore } from '../firebase';
-
-// Type for user data stored in Firestore
-export interface UserData {
-  uid: string;
-  displayName: string | null;
-  createdAt: Date;
-  lastActive: Date;
-}
+import { auth } from '../firebase';
+import { userDocRef } from '../models/collections';
+import { getDefaultDisplayName, User as UserProfile } from '../models/user';
 
 // Sign in anonymously
 export const signInAnonymously = async (): Promise<User> => {
@@ -59,18 +53,19 @@ export const getCurrentUser = (): User | null => {
 // Create or update user document in Firestore
 export const createOrUpdateUserDocument = async (
   user: User,
-  additionalData?: Partial<UserData>
+  additionalData?: Partial<WithFieldValue<UserProfile>>
 ): Promise<void> => {
   if (!user) return;
 
-  const userRef = doc(firestore, 'users', user.uid);
+  const userRef = userDocRef(user.uid);
   const snapshot = await getDoc(userRef);
 
   if (!snapshot.exists()) {
     // Create new user document
-    const userData: any = {
+    const userData = {
       uid: user.uid,
-      displayName: user.displayName || `User-${user.uid.substring(0, 5)}`,
+      displayName: user.displayName || getDefaultDisplayName(user.uid),
+      isAnonymous: user.isAnonymous,
       createdAt: serverTimestamp(),
       lastActive: serverTimestamp(),
       ...additionalData,
@@ -1,57 +1,155 @@
-import { collection, query, where, orderBy, addDoc, updateDoc, doc, onSnapshot, getDocs, limit, serverTimestamp, Timestamp } from 'firebase/firestore';
-import { useEffect, useState } from 'react';
-import { firestore } from '../firebase';
+import { query, where, orderBy, updateDoc, doc, onSnapshot, getDocs, getDoc, serverTimestamp, writeBatch, arrayUnion, arrayRemove, deleteField, WriteBatch, increment, limit, startAfter, endAt, FieldPath, QueryDocumentSnapshot } from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { firestore, storage } from '../firebase';
+import { Attachment, deleteAttachmentFiles } from './attachments';
 import { auth } from '../firebase';
+import { Chat } from '../models/chat';
+import { Message, MessageEdit, MessageReply } from '../models/message';
+import {
+  chatDocRef,
+  chatsCollection,
+  messageDocRef,
+  messageHistoryCollection,
+  messagesCollection,
+} from '../models/collections';
+import { readDocs } from '../models/schema';
+import { useAuthContext } from '../contexts/AuthContext';
+import {
+  loadCachedChats,
+  loadCachedMessages,
+  mergeWithCached,
+  saveCachedChats,
+  saveCachedMessages,
+} from './offlineCache';
 
-// Message interface
-export interface Message {
-  id?: string;
-  text: string;
-  createdAt: Date;
-  senderId: string;
-  senderName: string;
-  chatId: string;
-}
+export type { Message, MessageEdit, MessageReply } from '../models/message';
+export type { Chat } from '../models/chat';
 
-// Chat interface
-export interface Chat {
-  id?: string;
-  participants: string[];
-  participantNames: Record<string, string>;
-  lastMessage?: {
-    text: string;
-    createdAt: Date;
-    senderId: string;
-  };
-  createdAt: Date;
-  updatedAt: Date;
+// Emoji offered in the reaction picker (must match firestore.rules)
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Reactions to a message, aggregated per emoji
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe: boolean;
 }
 
+// How long after sending a message its sender may edit or delete it
+// (must match the window in firestore.rules)
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+// Longest message text and most attachments per message (must match firestore.rules)
+export const MAX_MESSAGE_LENGTH = 10000;
+export const MAX_MESSAGE_ATTACHMENTS = 10;
+
+// Most members a group can have (must match firestore.rules)
+export const MAX_GROUP_MEMBERS = 50;
+
+// Preview shown in the chat list when the last message was deleted
+export const DELETED_MESSAGE_TEXT = 'Message deleted';
+
+// Delivery status shown under the sender's own messages
+export type MessageReadStatus = 'delivered' | 'seen';
+
 // Get current user
 export const getCurrentUser = () => {
   return auth.currentUser;
 };
 
-// Check if chat exists between participants
+// Get a display name for the current user
+const getCurrentUserName = (currentUser: { uid: string; displayName: string | null }) => {
+  return currentUser.displayName || `User-${currentUser.uid.substring(0, 5)}`;
+};
+
+// Get the title to show for a chat (group name, or the other participant's name for 1:1 chats)
+export const getChatTitle = (
+  chat: Pick<Chat, 'participants' | 'participantNames' | 'isGroup' | 'name'>,
+  currentUserId?: string
+): string => {
+  if (chat.isGroup) {
+    if (chat.name) return chat.name;
+
+    // Unnamed groups fall back to a list of the other members
+    const otherNames = chat.participants
+      .filter(id => id !== currentUserId)
+      .map(id => chat.participantNames[id] || `User-${id.substring(0, 5)}`);
+    return otherNames.length > 0 ? otherNames.join(', ') : 'Group Chat';
+  }
+
+  const otherParticipantId = chat.participants.find(id => id !== currentUserId);
+  if (otherParticipantId) {
+    return chat.participantNames[otherParticipantId] || `User-${otherParticipantId.substring(0, 5)}`;
+  }
+
+  return 'Chat';
+};
+
+// Check whether a message was sent by a user, including from a guest account they merged
+export const isSentBy = (chat: Pick<Chat, 'mergedAccounts'> | null, senderId: string, userId?: string): boolean => {
+  return !!userId && (senderId === userId || chat?.mergedAccounts?.[senderId] === userId);
+};
+
+// Check whether a user is an admin of a group chat
+export const isChatAdmin = (chat: Pick<Chat, 'admins'>, userId?: string): boolean => {
+  return !!userId && (chat.admins || []).includes(userId);
+};
+
+// Seen once any other participant has read the chat at or after the message was sent
+export const getMessageReadStatus = (
+  chat: Pick<Chat, 'participants' | 'lastReadAt'>,
+  message: Pick<Message, 'senderId' | 'createdAt'>
+): MessageReadStatus => {
+  const lastReadAt = chat.lastReadAt || {};
+  const seen = chat.participants.some(id =>
+    id !== message.senderId &&
+    lastReadAt[id] !== undefined &&
+    lastReadAt[id].getTime() >= new Date(message.createdAt).getTime()
+  );
+  return seen ? 'seen' : 'delivered';
+};
+
+// Queue a system message (chat created, membership changes etc.) on a batch
+const addSystemMessage = (batch: WriteBatch, chatId: string, text: string) => {
+  const messageRef = doc(messagesCollection());
+  batch.set(messageRef, {
+    text,
+    createdAt: serverTimestamp(),
+    senderId: 'system',
+    senderName: 'System',
+    chatId,
+  });
+};
+
+// Load a chat document, or throw if it does not exist
+const getChatById = async (chatId: string): Promise<Chat> => {
+  const chatDoc = await getDoc(chatDocRef(chatId));
+  if (!chatDoc.exists()) throw new Error('Chat not found');
+  return chatDoc.data();
+};
+
+// Check if a 1:1 chat exists between participants (group chats are never de-duplicated)
 export const checkExistingChat = async (participantIds: string[]): Promise<string | null> => {
   try {
     // Sort participant IDs to ensure consistent chat ID generation
     const sortedParticipantIds = [...participantIds].sort();
     
     // Query for existing chat
-    const chatsRef = collection(firestore, 'chats');
+    const chatsRef = chatsCollection();
     const q = query(
       chatsRef, 
-      where('participants', '==', sortedParticipantIds),
-      limit(1)
+      where('participants', '==', sortedParticipantIds)
     );
     
     const querySnapshot = await getDocs(q);
     
-    if (!querySnapshot.empty) {
-      const chatDoc = querySnapshot.docs[0];
-      console.log('Found existing chat:', chatDoc.id);
-      return chatDoc.id;
+    // Groups can share a participant set with a 1:1 chat or with each other
+    const chat = readDocs(querySnapshot).find(c => !c.isGroup);
+    if (chat?.id) {
+      console.log('Found existing chat:', chat.id);
+      return chat.id;
     }
     
     return null;
@@ -76,7 +174,7 @@ export const createChat = async (
     // Make sure the current user is included in participants
     if (!participantIds.includes(currentUser.uid)) {
       participantIds.push(currentUser.uid);
-      participantNames[currentUser.uid] = currentUser.displayName || `User-${currentUser.uid.substring(0, 5)}`;
+      participantNames[currentUser.uid] = getCurrentUserName(currentUser);
     }
 
     // Sort participant IDs to ensure consistent chat ID generation
@@ -89,28 +187,21 @@ export const createChat = async (
       return existingChatId;
     }
     
-    // Create new chat document
-    const now = new Date();
-    const chatData: Chat = {
+    // Create the chat and its welcome message in one atomic batch
+    const batch = writeBatch(firestore);
+    const chatRef = doc(chatsCollection());
+    batch.set(chatRef, {
       participants: sortedParticipantIds,
       participantNames,
-      createdAt: now,
-      updatedAt: now,
-    };
-
-    const chatRef = await addDoc(collection(firestore, 'chats'), chatData);
-    console.log('New chat created with ID:', chatRef.id);
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
     
     // Send a system message to indicate chat creation
-    const welcomeMessage = {
-      text: 'Chat created. Say hello!',
-      createdAt: now,
-      senderId: 'system',
-      senderName: 'System',
-      chatId: chatRef.id,
-    };
+    addSystemMessage(batch, chatRef.id, 'Chat created. Say hello!');
     
-    await addDoc(collection(firestore, 'messages'), welcomeMessage);
+    await batch.commit();
+    console.log('New chat created with ID:', chatRef.id);
     
     return chatRef.id;
   } catch (error) {
@@ -119,102 +210,649 @@ export const createChat = async (
   }
 };
 
+// Create a new named group chat; the creator becomes its first admin
+export const createGroupChat = async (
+  name: string,
+  participantIds: string[],
+  participantNames: Record<string, string>,
+  photoURL: string | null = null
+): Promise<string> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+
+    const groupName = name.trim();
+    if (!groupName) throw new Error('Group name cannot be empty');
+
+    const creatorName = getCurrentUserName(currentUser);
+    const members = Array.from(new Set([...participantIds, currentUser.uid])).sort();
+    if (members.length < 2) throw new Error('A group needs at least one other member');
+    if (members.length > MAX_GROUP_MEMBERS) throw new Error(`A group can have at most ${MAX_GROUP_MEMBERS} members`);
+
+    console.log(`Creating group "${groupName}" with participants:`, members);
+
+    // Create the group and its first system message in one atomic batch
+    const batch = writeBatch(firestore);
+    const chatRef = doc(chatsCollection());
+    batch.set(chatRef, {
+      participants: members,
+      participantNames: { ...participantNames, [currentUser.uid]: creatorName },
+      isGroup: true,
+      name: groupName,
+      photoURL,
+      admins: [currentUser.uid],
+      createdBy: currentUser.uid,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    addSystemMessage(batch, chatRef.id, `${creatorName} created the group "${groupName}"`);
+
+    await batch.commit();
+    console.log('New group chat created with ID:', chatRef.id);
+
+    return chatRef.id;
+  } catch (error) {
+    console.error('Error creating group chat:', error);
+    throw error;
+  }
+};
+
+// Rename a group or change its avatar (admins only)
+export const updateGroupDetails = async (
+  chatId: string,
+  details: { name?: string; photoURL?: string | null }
+): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+
+    const chat = await getChatById(chatId);
+    if (!chat.isGroup) throw new Error('Only group chats can be renamed');
+    if (!isChatAdmin(chat, currentUser.uid)) throw new Error('Only group admins can change group details');
+
+    const batch = writeBatch(firestore);
+    const updates: Record<string, any> = { updatedAt: serverTimestamp() };
+
+    // Unchanged details are skipped; the rules only accept a system message
+    // alongside an actual change
+    if (details.name !== undefined) {
+      const groupName = details.name.trim();
+      if (!groupName) throw new Error('Group name cannot be empty');
+      if (groupName !== chat.name) {
+        updates.name = groupName;
+        addSystemMessage(batch, chatId, `${getCurrentUserName(currentUser)} renamed the group to "${groupName}"`);
+      }
+    }
+
+    if (details.photoURL !== undefined && details.photoURL !== chat.photoURL) {
+      updates.photoURL = details.photoURL;
+      addSystemMessage(batch, chatId, `${getCurrentUserName(currentUser)} changed the group photo`);
+    }
+
+    if (Object.keys(updates).length === 1) return;
+
+    batch.update(chatDocRef(chatId), updates);
+    await batch.commit();
+    console.log('Group details updated for chat:', chatId);
+  } catch (error) {
+    console.error('Error updating group details:', error);
+    throw error;
+  }
+};
+
+// Upload a new group avatar and save it on the chat (admins only)
+export const updateGroupPhoto = async (chatId: string, uri: string): Promise<void> => {
+  try {
+    console.log(`Updating group photo for chat ${chatId} with URI: ${uri}`);
+
+    // Convert URI to blob and upload it
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    // Storage rules only accept images
+    const snapshot = await uploadBytes(ref(storage, `group_photos/${chatId}`), blob, {
+      contentType: blob.type || 'image/jpeg',
+    });
+    const downloadURL = await getDownloadURL(snapshot.ref);
+
+    await updateGroupDetails(chatId, { photoURL: downloadURL });
+  } catch (error) {
+    console.error('Error updating group photo:', error);
+    throw error;
+  }
+};
+
+// Add members to a group chat (admins only)
+export const addGroupMembers = async (
+  chatId: string,
+  members: Record<string, string>
+): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+
+    const chat = await getChatById(chatId);
+    if (!chat.isGroup) throw new Error('Members can only be added to group chats');
+    if (!isChatAdmin(chat, currentUser.uid)) throw new Error('Only group admins can add members');
+
+    const newMemberIds = Object.keys(members).filter(id => !chat.participants.includes(id));
+    if (newMemberIds.length === 0) return;
+    if (chat.participants.length + newMemberIds.length > MAX_GROUP_MEMBERS) {
+      throw new Error(`A group can have at most ${MAX_GROUP_MEMBERS} members`);
+    }
+
+    const batch = writeBatch(firestore);
+    const updates: Record<string, any> = {
+      participants: [...chat.participants, ...newMemberIds].sort(),
+      updatedAt: serverTimestamp(),
+    };
+    newMemberIds.forEach(id => {
+      updates[`participantNames.${id}`] = members[id];
+    });
+
+    batch.update(chatDocRef(chatId), updates);
+    const addedNames = newMemberIds.map(id => members[id]).join(', ');
+    addSystemMessage(batch, chatId, `${getCurrentUserName(currentUser)} added ${addedNames}`);
+
+    await batch.commit();
+    console.log(`Added ${newMemberIds.length} members to chat ${chatId}`);
+  } catch (error) {
+    console.error('Error adding group members:', error);
+    throw error;
+  }
+};
+
+// Remove a member from a group chat (admins only)
+export const removeGroupMember = async (chatId: string, userId: string): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+    if (userId === currentUser.uid) {
+      await leaveGroup(chatId);
+      return;
+    }
+
+    const chat = await getChatById(chatId);
+    if (!chat.isGroup) throw new Error('Members can only be removed from group chats');
+    if (!isChatAdmin(chat, currentUser.uid)) throw new Error('Only group admins can remove members');
+    if (!chat.participants.includes(userId)) return;
+
+    const batch = writeBatch(firestore);
+    const removedName = chat.participantNames[userId] || `User-${userId.substring(0, 5)}`;
+
+    batch.update(chatDocRef(chatId), {
+      participants: arrayRemove(userId),
+      admins: arrayRemove(userId),
+      [`participantNames.${userId}`]: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+    addSystemMessage(batch, chatId, `${getCurrentUserName(currentUser)} removed ${removedName}`);
+
+    await batch.commit();
+    console.log(`Removed ${userId} from chat ${chatId}`);
+  } catch (error) {
+    console.error('Error removing group member:', error);
+    throw error;
+  }
+};
+
+// Grant or revoke admin rights for a group member (admins only)
+export const setGroupAdmin = async (chatId: string, userId: string, isAdmin: boolean): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+
+    const chat = await getChatById(chatId);
+    if (!chat.isGroup) throw new Error('Only group chats have admins');
+    if (!isChatAdmin(chat, currentUser.uid)) throw new Error('Only group admins can change admins');
+    if (!chat.participants.includes(userId)) throw new Error('User is not a member of this group');
+    if (!isAdmin && (chat.admins || []).length <= 1 && isChatAdmin(chat, userId)) {
+      throw new Error('A group must keep at least one admin');
+    }
+
+    const batch = writeBatch(firestore);
+    const memberName = chat.participantNames[userId] || `User-${userId.substring(0, 5)}`;
+
+    batch.update(chatDocRef(chatId), {
+      admins: isAdmin ? arrayUnion(userId) : arrayRemove(userId),
+      updatedAt: serverTimestamp(),
+    });
+    addSystemMessage(
+      batch,
+      chatId,
+      isAdmin ? `${memberName} is now an admin` : `${memberName} is no longer an admin`
+    );
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error updating group admins:', error);
+    throw error;
+  }
+};
+
+// Leave a group chat; if the last admin leaves, the next member is promoted
+export const leaveGroup = async (chatId: string): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+
+    const chat = await getChatById(chatId);
+    if (!chat.isGroup) throw new Error('You can only leave group chats');
+
+    const remaining = chat.participants.filter(id => id !== currentUser.uid);
+    const remainingAdmins = (chat.admins || []).filter(id => id !== currentUser.uid);
+
+    const batch = writeBatch(firestore);
+    const updates: Record<string, any> = {
+      participants: remaining,
+      admins: remainingAdmins.length === 0 && remaining.length > 0 ? [remaining[0]] : remainingAdmins,
+      [`participantNames.${currentUser.uid}`]: deleteField(),
+      updatedAt: serverTimestamp(),
+    };
+
+    batch.update(chatDocRef(chatId), updates);
+    addSystemMessage(batch, chatId, `${getCurrentUserName(currentUser)} left the group`);
+
+    await batch.commit();
+    console.log(`User ${currentUser.uid} left chat ${chatId}`);
+  } catch (error) {
+    console.error('Error leaving group:', error);
+    throw error;
+  }
+};
+
+// Mark a chat as read by the current user
+export const markChatAsRead = async (chatId: string): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+
+    // updatedAt is left alone so reading a chat doesn't reorder the chat list
+    await updateDoc(chatDocRef(chatId), {
+      [`lastReadAt.${currentUser.uid}`]: serverTimestamp(),
+      [`unreadCounts.${currentUser.uid}`]: 0,
+    });
+    console.log(`Marked chat ${chatId} as read`);
+  } catch (error) {
+    console.error('Error marking chat as read:', error);
+  }
+};
+
+// Result of a successful sendMessage call
+export interface SendMessageResult {
+  messageId: string;
+  chatId: string;
+}
+
+// Options for sendMessage
+export interface SendMessageOptions {
+  // Client-generated message ID (see createMessageId)
+  messageId?: string;
+  // Check the server for an earlier delivery of `messageId` before writing,
+  // so a retried send never creates a duplicate message
+  dedupe?: boolean;
+  // Already uploaded attachments to store on the message
+  attachments?: Attachment[];
+  // Message being replied to (see createMessageReply)
+  replyTo?: MessageReply;
+}
+
+// Shortest word prefix stored in a message's search keywords (also the shortest
+// search, see services/search)
+export const KEYWORD_MIN_PREFIX = 3;
+
+// Most keywords stored per message
+const MAX_KEYWORDS = 200;
+
+// Split text into lowercase search tokens on whitespace and punctuation
+export const tokenizeSearchText = (text: string): string[] => {
+  // Apostrophes are dropped so "don't" stays one word
+  return text.toLowerCase().replace(/['\u2019]/g, '').split(/[\s!-/:-@[-`{-~\u2018-\u201F\u2026]+/).filter(Boolean);
+};
+
+// Keywords indexed on a message: every word and its prefixes, so a search for
+// the start of a word finds it with a single array-contains query. Whole words
+// come first, so a long message loses prefixes to the cap before it loses words.
+export const getSearchKeywords = (text: string): string[] => {
+  const words = Array.from(new Set(tokenizeSearchText(text)));
+  const keywords = new Set<string>(words.slice(0, MAX_KEYWORDS));
+  words.forEach(word => {
+    for (let length = KEYWORD_MIN_PREFIX; length < word.length && keywords.size < MAX_KEYWORDS; length++) {
+      keywords.add(word.substring(0, length));
+    }
+  });
+  return Array.from(keywords);
+};
+
+// Longest quoted text stored on a reply (must match firestore.rules)
+const REPLY_PREVIEW_LENGTH = 200;
+
+// Build the quote stored on a reply to `message`
+export const createMessageReply = (message: Message): MessageReply => {
+  const preview = getMessagePreview(message.text, message.attachments);
+  return {
+    messageId: message.id!,
+    text: preview.length > REPLY_PREVIEW_LENGTH ? `${preview.substring(0, REPLY_PREVIEW_LENGTH)}…` : preview,
+    senderId: message.senderId,
+    senderName: message.senderName,
+  };
+};
+
+// Get the chat list preview for a message (attachment-only messages have no text)
+export const getMessagePreview = (text: string, attachments: Attachment[] = []): string => {
+  if (text) return text;
+  if (attachments.length === 0) return '';
+  if (attachments.every(attachment => attachment.kind === 'image')) {
+    return attachments.length > 1 ? `📷 ${attachments.length} Photos` : '📷 Photo';
+  }
+  return '📎 File';
+};
+
+// Generate a message ID locally, before the message is written
+export const createMessageId = (): string => {
+  return doc(messagesCollection()).id;
+};
+
 // Send a message to a chat
-export const sendMessage = async (chatId: string, text: string): Promise<void> => {
+export const sendMessage = async (
+  chatId: string,
+  text: string,
+  options: SendMessageOptions = {}
+): Promise<SendMessageResult> => {
   try {
     const currentUser = getCurrentUser();
     if (!currentUser) throw new Error('No user is signed in');
 
-    console.log(`Sending message to chat ${chatId}: "${text}"`);
-    
-    const now = new Date();
-    const messageData: Message = {
+    const attachments = options.attachments || [];
+    if (!text && attachments.length === 0) throw new Error('Message is empty');
+    if (text.length > MAX_MESSAGE_LENGTH) throw new Error('Message is too long');
+    if (attachments.length > MAX_MESSAGE_ATTACHMENTS) throw new Error('Too many attachments');
+
+    console.log(`Sending message to chat ${chatId}: "${text}" (${attachments.length} attachments)`);
+
+    const messageRef = options.messageId
+      ? messageDocRef(options.messageId)
+      : doc(messagesCollection());
+
+    // A retry of a message that already reached the server is a no-op
+    if (options.messageId && options.dedupe) {
+      const existingMessage = await getDoc(messageRef);
+      if (existingMessage.exists()) {
+        console.log('Message already sent, skipping duplicate:', messageRef.id);
+        return { messageId: messageRef.id, chatId };
+      }
+    }
+
+    // Count the message as unread for everyone else in the chat
+    const chatRef = chatDocRef(chatId);
+    const chatDoc = await getDoc(chatRef);
+    if (!chatDoc.exists()) throw new Error('Chat not found');
+
+    const { participants } = chatDoc.data();
+    const unreadUpdates: Record<string, any> = {};
+    participants
+      .filter(id => id !== currentUser.uid)
+      .forEach(id => {
+        unreadUpdates[`unreadCounts.${id}`] = increment(1);
+      });
+
+    // Write the message and the chat's last message preview in one atomic batch.
+    // Server timestamps keep ordering independent of device clocks.
+    const batch = writeBatch(firestore);
+
+    batch.set(messageRef, {
       text,
-      createdAt: now,
+      createdAt: serverTimestamp(),
       senderId: currentUser.uid,
-      senderName: currentUser.displayName || `User-${currentUser.uid.substring(0, 5)}`,
+      senderName: getCurrentUserName(currentUser),
       chatId,
-    };
-
-    // Add message to the messages collection
-    const messageRef = await addDoc(collection(firestore, 'messages'), messageData);
-    console.log('Message added with ID:', messageRef.id);
+      ...(attachments.length > 0 && { attachments }),
+      ...(options.replyTo && { replyTo: options.replyTo }),
+      keywords: getSearchKeywords(text),
+    });
 
-    // Update the chat's last message and updatedAt
-    await updateDoc(doc(firestore, 'chats', chatId), {
+    batch.update(chatRef, {
       lastMessage: {
-        text,
-        createdAt: now,
+        text: getMessagePreview(text, attachments),
+        createdAt: serverTimestamp(),
         senderId: currentUser.uid,
+        messageId: messageRef.id,
       },
-      updatedAt: now,
+      updatedAt: serverTimestamp(),
+      // Sending implies the sender has read everything before it
+      [`lastReadAt.${currentUser.uid}`]: serverTimestamp(),
+      [`unreadCounts.${currentUser.uid}`]: 0,
+      ...unreadUpdates,
     });
 
-    console.log('Chat updated with last message');
+    await batch.commit();
+    console.log('Message added with ID:', messageRef.id);
+
+    return { messageId: messageRef.id, chatId };
   } catch (error) {
     console.error('Error sending message:', error);
     throw error;
   }
 };
 
-// Get all chats for the current user
+// Check whether a user may still edit or delete a message
+export const canModifyMessage = (message: Message, userId?: string): boolean => {
+  if (!userId || message.senderId !== userId || message.deleted || !message.id) return false;
+  return Date.now() - new Date(message.createdAt).getTime() < MESSAGE_EDIT_WINDOW_MS;
+};
+
+// Aggregate a message's reactions, most popular first
+export const getReactionSummary = (message: Message, currentUserId?: string): ReactionSummary[] => {
+  return Object.entries(message.reactions || {})
+    .filter(([, userIds]) => userIds.length > 0)
+    .map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      userIds,
+      reactedByMe: !!currentUserId && userIds.includes(currentUserId),
+    }))
+    .sort((a, b) => b.count - a.count || REACTION_EMOJIS.indexOf(a.emoji) - REACTION_EMOJIS.indexOf(b.emoji));
+};
+
+// Add or remove the current user's reaction to a message
+export const toggleReaction = async (message: Message, emoji: string): Promise<void> => {
+  try {
+    const currentUser = getCurrentUser();
+    if (!currentUser) throw new Error('No user is signed in');
+    if (!message.id || message.deleted) throw new Error('Cannot react to this message');
+    if (!REACTION_EMOJIS.includes(emoji)) throw new Error('Unsupported reaction');
+
+    const hasReacted = (message.reactions?.[emoji] || []).includes(currentUser.uid);
+    console.log(`${hasReacted ? 'Removing' : 'Adding'} reaction ${emoji} on message ${message.id}`);
+
+    // Array updates only touch the current user's ID, so concurrent reactions don't clash
+    await updateDoc(
+      messageDocRef(message.id),
+      new FieldPath('reactions', emoji),
+      hasReacted ? arrayRemove(currentUser.uid) : arrayUnion(currentUser.uid)
+    );
+  } catch (error) {
+    console.error('Error updating reaction:', error);
+    throw error;
+  }
+};
+
+// Load a message the current user is allowed to modify
+const getModifiableMessage = async (messageId: string) => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  const messageRef = messageDocRef(messageId);
+  const messageDoc = await getDoc(messageRef);
+  if (!messageDoc.exists()) throw new Error('Message not found');
+
+  const message = messageDoc.data();
+  if (message.senderId !== currentUser.uid) throw new Error('You can only change your own messages');
+  if (!canModifyMessage(message, currentUser.uid)) {
+    throw new Error('This message can no longer be changed');
+  }
+
+  return { messageRef, message };
+};
+
+// Update the chat list preview if it shows the given message
+const updateLastMessagePreview = async (
+  batch: WriteBatch,
+  chatId: string,
+  messageId: string,
+  text: string
+) => {
+  const chat = await getChatById(chatId);
+  if (chat?.lastMessage?.messageId === messageId) {
+    batch.update(chatDocRef(chatId), { 'lastMessage.text': text });
+  }
+};
+
+// Edit the text of one of the current user's messages, keeping the previous version
+export const editMessage = async (messageId: string, text: string): Promise<void> => {
+  try {
+    const newText = text.trim();
+    const { messageRef, message } = await getModifiableMessage(messageId);
+    if (!newText && (message.attachments || []).length === 0) throw new Error('Message is empty');
+    if (newText.length > MAX_MESSAGE_LENGTH) throw new Error('Message is too long');
+    if (newText === message.text) return;
+
+    console.log(`Editing message ${messageId}`);
+
+    const batch = writeBatch(firestore);
+    batch.set(doc(messageHistoryCollection(messageId)), {
+      text: message.text,
+      editedAt: serverTimestamp(),
+    });
+    batch.update(messageRef, {
+      text: newText,
+      keywords: getSearchKeywords(newText),
+      editedAt: serverTimestamp(),
+    });
+    await updateLastMessagePreview(batch, message.chatId, messageId, getMessagePreview(newText, message.attachments));
+
+    await batch.commit();
+    console.log('Message edited:', messageId);
+  } catch (error) {
+    console.error('Error editing message:', error);
+    throw error;
+  }
+};
+
+// Delete one of the current user's messages for everyone, leaving a tombstone
+export const deleteMessage = async (messageId: string): Promise<void> => {
+  try {
+    const { messageRef, message } = await getModifiableMessage(messageId);
+
+    console.log(`Deleting message ${messageId}`);
+
+    // Earlier versions would reveal the deleted text, so they go too
+    const history = await getDocs(messageHistoryCollection(messageId));
+
+    const batch = writeBatch(firestore);
+    history.forEach(editDoc => batch.delete(editDoc.ref));
+    batch.update(messageRef, {
+      text: '',
+      attachments: deleteField(),
+      reactions: deleteField(),
+      keywords: deleteField(),
+      editedAt: deleteField(),
+      deleted: true,
+      deletedAt: serverTimestamp(),
+    });
+    await updateLastMessagePreview(batch, message.chatId, messageId, DELETED_MESSAGE_TEXT);
+
+    await batch.commit();
+    console.log('Message deleted:', messageId);
+
+    // Remove uploaded files once the message no longer points to them
+    await deleteAttachmentFiles(message.attachments || []);
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    throw error;
+  }
+};
+
+// Get the previous versions of an edited message, newest first
+export const getMessageHistory = async (messageId: string): Promise<MessageEdit[]> => {
+  try {
+    const history = await getDocs(query(messageHistoryCollection(messageId), orderBy('editedAt', 'desc')));
+    return readDocs(history);
+  } catch (error) {
+    console.error('Error loading message history:', error);
+    throw error;
+  }
+};
+
+// Get all chats for the current user, following sign-in, sign-out and account switches
 export const useChats = () => {
+  const { user } = useAuthContext();
+  const userId = user?.uid;
   const [chats, setChats] = useState<Chat[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const [hasPendingWrites, setHasPendingWrites] = useState(false);
 
   useEffect(() => {
-    const currentUser = getCurrentUser();
-    if (!currentUser) {
+    setChats([]);
+    setError(null);
+    if (!userId) {
       console.log('No user is signed in, cannot fetch chats');
       setLoading(false);
       return () => {};
     }
 
-    console.log('Fetching chats for user:', currentUser.uid);
+    console.log('Fetching chats for user:', userId);
+    setLoading(true);
 
-    const chatsRef = collection(firestore, 'chats');
+    const chatsRef = chatsCollection();
     const q = query(
       chatsRef,
-      where('participants', 'array-contains', currentUser.uid),
+      where('participants', 'array-contains', userId),
       orderBy('updatedAt', 'desc')
     );
 
+    // Until the server answers, the chats saved for offline reading fill in
+    // whatever Firestore's cache doesn't have yet
+    let cancelled = false;
+    let cachedChats: Chat[] = [];
+    let liveChats: Chat[] | null = null;
+    let fromServer = false;
+
+    const showChats = () => {
+      const chatList = fromServer ? liveChats || [] : mergeWithCached(
+        cachedChats,
+        liveChats || [],
+        chat => chat.updatedAt.getTime()
+      );
+      setChats(chatList.map(chat => ({ ...chat, unreadCount: chat.unreadCounts?.[userId] || 0 })));
+    };
+
+    loadCachedChats(userId).then((cached) => {
+      if (cancelled || fromServer || cached.length === 0) return;
+      console.log(`Restored ${cached.length} chats saved for offline reading`);
+      cachedChats = cached;
+      showChats();
+      setFromCache(true);
+      setLoading(false);
+    });
+
+    // Metadata changes are included so fromCache flips when the server catches up
     const unsubscribe = onSnapshot(
       q,
+      { includeMetadataChanges: true },
       (snapshot) => {
-        const chatList: Chat[] = [];
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          
-          // Convert Firestore timestamps to JavaScript Date objects
-          const createdAt = data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(data.createdAt);
-          const updatedAt = data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(data.updatedAt);
-          
-          let lastMessage = undefined;
-          if (data.lastMessage) {
-            const lastMessageCreatedAt = data.lastMessage.createdAt instanceof Timestamp 
-              ? data.lastMessage.createdAt.toDate() 
-              : new Date(data.lastMessage.createdAt);
-            
-            lastMessage = {
-              ...data.lastMessage,
-              createdAt: lastMessageCreatedAt
-            };
-          }
-          
-          chatList.push({
-            id: doc.id,
-            participants: data.participants || [],
-            participantNames: data.participantNames || {},
-            lastMessage,
-            createdAt,
-            updatedAt
-          });
-        });
-        
-        console.log(`Fetched ${chatList.length} chats`);
-        setChats(chatList);
+        liveChats = readDocs(snapshot);
+        if (!snapshot.metadata.fromCache) {
+          fromServer = true;
+          saveCachedChats(userId, liveChats);
+        }
+
+        console.log(`Fetched ${liveChats.length} chats${snapshot.metadata.fromCache ? ' (from cache)' : ''}`);
+        showChats();
+        setFromCache(snapshot.metadata.fromCache);
+        setHasPendingWrites(snapshot.metadata.hasPendingWrites);
+        setError(null);
         setLoading(false);
       },
       (err) => {
@@ -225,17 +863,39 @@ export const useChats = () => {
     );
 
     // Cleanup subscription
-    return () => unsubscribe();
-  }, []);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
 
-  return { chats, loading, error };
+  return { chats, loading, error, fromCache, hasPendingWrites };
 };
 
+// Options for useMessages
+export interface UseMessagesOptions {
+  // When set, only the newest `pageSize` messages are loaded up front and
+  // older history is fetched page by page through `loadOlder`
+  pageSize?: number;
+}
+
 // Get messages for a specific chat
-export const useMessages = (chatId: string) => {
+export const useMessages = (chatId: string, options: UseMessagesOptions = {}) => {
+  const { pageSize } = options;
+  const { user } = useAuthContext();
+  const userId = user?.uid;
   const [messages, setMessages] = useState<Message[]>([]);
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [fromCache, setFromCache] = useState(false);
+  const [hasPendingWrites, setHasPendingWrites] = useState(false);
+
+  // Oldest document loaded so far; older pages start after it
+  const cursorRef = useRef<QueryDocumentSnapshot<Message> | null>(null);
+  const loadingOlderRef = useRef(false);
 
   useEffect(() => {
     if (!chatId) {
@@ -246,59 +906,214 @@ export const useMessages = (chatId: string) => {
 
     console.log(`Fetching messages for chat: ${chatId}`);
 
-    const messagesRef = collection(firestore, 'messages');
-    const q = query(
+    const messagesRef = messagesCollection();
+    const chatMessagesQuery = query(
       messagesRef,
       where('chatId', '==', chatId),
       orderBy('createdAt', 'desc')
     );
 
-    const unsubscribe = onSnapshot(
-      q,
-      (snapshot) => {
-        const messageList: Message[] = [];
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          
-          // Convert Firestore timestamp to JavaScript Date
-          const createdAt = data.createdAt instanceof Timestamp 
-            ? data.createdAt.toDate() 
-            : new Date(data.createdAt);
-          
-          messageList.push({
-            id: doc.id,
-            text: data.text || '',
-            createdAt,
-            senderId: data.senderId || '',
-            senderName: data.senderName || `User-${data.senderId?.substring(0, 5) || 'unknown'}`,
-            chatId: data.chatId || '',
-          });
-        });
-        
-        console.log(`Fetched ${messageList.length} messages for chat ${chatId}`);
-        setMessages(messageList);
-        setLoading(false);
-      },
-      (err) => {
-        console.error(`Error fetching messages for chat ${chatId}:`, err);
-        setError(err as Error);
+    let unsubscribe = () => {};
+    let cancelled = false;
+
+    setMessages([]);
+    setOlderMessages([]);
+    setHasMore(false);
+    setLoading(true);
+    cursorRef.current = null;
+
+    // Until the server answers, the messages saved for offline reading fill in
+    // whatever Firestore's cache doesn't have yet
+    let cachedMessages: Message[] = [];
+    let liveMessages: Message[] | null = null;
+    let fromServer = false;
+
+    const showMessages = () => {
+      setMessages(fromServer ? liveMessages || [] : mergeWithCached(
+        cachedMessages,
+        liveMessages || [],
+        message => message.createdAt.getTime()
+      ));
+    };
+
+    if (userId) {
+      loadCachedMessages(userId, chatId).then((cached) => {
+        if (cancelled || fromServer || cached.length === 0) return;
+        console.log(`Restored ${cached.length} messages saved for offline reading in chat ${chatId}`);
+        cachedMessages = cached;
+        showMessages();
+        setFromCache(true);
         setLoading(false);
-      }
-    );
+      });
+    }
+
+    // Listen to every message from `anchor` (inclusive) up to the newest one.
+    // New messages extend this live window instead of pushing older ones out.
+    const subscribe = (anchor: QueryDocumentSnapshot<Message> | null) => {
+      const liveQuery = anchor ? query(chatMessagesQuery, endAt(anchor)) : chatMessagesQuery;
+
+      unsubscribe = onSnapshot(
+        liveQuery,
+        { includeMetadataChanges: true },
+        (snapshot) => {
+          liveMessages = readDocs(snapshot);
+          if (!snapshot.metadata.fromCache) {
+            fromServer = true;
+            if (userId) saveCachedMessages(userId, chatId, liveMessages);
+          }
+
+          console.log(`Fetched ${liveMessages.length} messages for chat ${chatId}${snapshot.metadata.fromCache ? ' (from cache)' : ''}`);
+          showMessages();
+          setFromCache(snapshot.metadata.fromCache);
+          setHasPendingWrites(snapshot.metadata.hasPendingWrites);
+          setError(null);
+          setLoading(false);
+        },
+        (err) => {
+          console.error(`Error fetching messages for chat ${chatId}:`, err);
+          setError(err as Error);
+          setLoading(false);
+        }
+      );
+    };
+
+    if (!pageSize) {
+      subscribe(null);
+    } else {
+      // Find the oldest message of the first page, then go live from there
+      getDocs(query(chatMessagesQuery, limit(pageSize)))
+        .then((firstPage) => {
+          if (cancelled) return;
+
+          const oldestDoc = firstPage.docs[firstPage.docs.length - 1] || null;
+          cursorRef.current = oldestDoc;
+          setHasMore(firstPage.size === pageSize);
+          subscribe(oldestDoc);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          console.error(`Error fetching first page of messages for chat ${chatId}:`, err);
+          setError(err as Error);
+          setLoading(false);
+        });
+    }
 
     // Cleanup subscription
-    return () => unsubscribe();
-  }, [chatId]);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [chatId, pageSize, userId]);
+
+  // Load the next page of messages older than everything loaded so far
+  const loadOlder = useCallback(async () => {
+    if (!chatId || !pageSize || !hasMore || !cursorRef.current || loadingOlderRef.current) return;
+
+    try {
+      loadingOlderRef.current = true;
+      setLoadingOlder(true);
+
+      const olderQuery = query(
+        messagesCollection(),
+        where('chatId', '==', chatId),
+        orderBy('createdAt', 'desc'),
+        startAfter(cursorRef.current),
+        limit(pageSize)
+      );
+      const page = await getDocs(olderQuery);
+
+      if (page.size > 0) {
+        cursorRef.current = page.docs[page.docs.length - 1];
+      }
+      console.log(`Loaded ${page.size} older messages for chat ${chatId}`);
+      setOlderMessages(prev => [...prev, ...readDocs(page)]);
+      setHasMore(page.size === pageSize);
+    } catch (err) {
+      console.error(`Error loading older messages for chat ${chatId}:`, err);
+      setError(err as Error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [chatId, pageSize, hasMore]);
+
+  // Load everything between the oldest loaded message and `messageId` (e.g. to
+  // jump to a quoted message). Resolves to whether the message is now loaded.
+  const loadUntilMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    if (messages.some(m => m.id === messageId) || olderMessages.some(m => m.id === messageId)) return true;
+    if (!chatId || !pageSize || !hasMore || !cursorRef.current || loadingOlderRef.current) return false;
+
+    try {
+      loadingOlderRef.current = true;
+      setLoadingOlder(true);
+
+      const target = await getDoc(messageDocRef(messageId));
+      if (!target.exists() || target.data().chatId !== chatId) return false;
+
+      const page = await getDocs(query(
+        messagesCollection(),
+        where('chatId', '==', chatId),
+        orderBy('createdAt', 'desc'),
+        startAfter(cursorRef.current),
+        endAt(target)
+      ));
 
-  return { messages, loading, error };
+      if (page.size > 0) {
+        cursorRef.current = page.docs[page.docs.length - 1];
+      }
+      console.log(`Loaded ${page.size} older messages for chat ${chatId} up to ${messageId}`);
+      setOlderMessages(prev => [...prev, ...readDocs(page)]);
+      return page.docs.some(messageDoc => messageDoc.id === messageId);
+    } catch (err) {
+      console.error(`Error loading messages up to ${messageId} for chat ${chatId}:`, err);
+      setError(err as Error);
+      return false;
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [chatId, pageSize, hasMore, messages, olderMessages]);
+
+  return {
+    messages: olderMessages.length > 0 ? [...messages, ...olderMessages] : messages,
+    loading,
+    error,
+    loadOlder,
+    loadUntilMessage,
+    hasMore,
+    loadingOlder,
+    fromCache,
+    hasPendingWrites,
+  };
 };
 
 // Collection of chat services
 const chatServices = {
   getCurrentUser,
+  getChatTitle,
+  isSentBy,
+  isChatAdmin,
+  getMessageReadStatus,
   checkExistingChat,
   createChat,
+  createGroupChat,
+  updateGroupDetails,
+  updateGroupPhoto,
+  addGroupMembers,
+  removeGroupMember,
+  setGroupAdmin,
+  leaveGroup,
+  markChatAsRead,
+  createMessageId,
   sendMessage,
+  getMessagePreview,
+  createMessageReply,
+  getReactionSummary,
+  toggleReaction,
+  canModifyMessage,
+  editMessage,
+  deleteMessage,
+  getMessageHistory,
   useChats,
   useMessages
 };
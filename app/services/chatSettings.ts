@@ -0,0 +1,181 @@
+import { doc, DocumentData, onSnapshot, setDoc, serverTimestamp, WithFieldValue } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { firestore } from '../firebase';
+import { Chat, getCurrentUser } from './chat';
+import { readOptionalDate } from '../models/schema';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// Per-user settings for one chat, stored in chatSettings/{userId} under the chat's ID.
+// They only affect how the chat appears to this user, never the shared chat document.
+export interface ChatSettings {
+  muted?: boolean;
+  // When a timed mute ends (null or absent: muted until unmuted)
+  mutedUntil?: Date | null;
+  pinned?: boolean;
+  pinnedAt?: Date | null;
+  archived?: boolean;
+  // "Delete for me": the chat is hidden until a message newer than this arrives
+  hiddenAt?: Date | null;
+}
+
+// Durations offered when muting a chat (null: until unmuted)
+export const MUTE_DURATIONS: { label: string; durationMs: number | null }[] = [
+  { label: '1 hour', durationMs: 60 * 60 * 1000 },
+  { label: '8 hours', durationMs: 8 * 60 * 60 * 1000 },
+  { label: '1 week', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Always', durationMs: null },
+];
+
+// Update the current user's settings for a chat
+const updateChatSettings = async (chatId: string, settings: Partial<WithFieldValue<ChatSettings>>): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  await setDoc(doc(firestore, 'chatSettings', currentUser.uid), {
+    [chatId]: settings,
+  }, { merge: true });
+};
+
+// Mute notifications for a chat, optionally for a limited time, or unmute it
+export const setChatMuted = async (
+  chatId: string,
+  muted: boolean,
+  durationMs: number | null = null
+): Promise<void> => {
+  try {
+    console.log(`${muted ? 'Muting' : 'Unmuting'} chat ${chatId}`);
+    await updateChatSettings(chatId, {
+      muted,
+      mutedUntil: muted && durationMs ? new Date(Date.now() + durationMs) : null,
+    });
+  } catch (error) {
+    console.error('Error updating chat mute setting:', error);
+    throw error;
+  }
+};
+
+// Pin a chat to the top of the list, or unpin it
+export const setChatPinned = async (chatId: string, pinned: boolean): Promise<void> => {
+  try {
+    console.log(`${pinned ? 'Pinning' : 'Unpinning'} chat ${chatId}`);
+    await updateChatSettings(chatId, { pinned, pinnedAt: pinned ? serverTimestamp() : null });
+  } catch (error) {
+    console.error('Error updating chat pin setting:', error);
+    throw error;
+  }
+};
+
+// Move a chat to the archive, or back to the main list
+export const setChatArchived = async (chatId: string, archived: boolean): Promise<void> => {
+  try {
+    console.log(`${archived ? 'Archiving' : 'Unarchiving'} chat ${chatId}`);
+    // Archived chats can't stay pinned
+    await updateChatSettings(chatId, archived ? { archived, pinned: false, pinnedAt: null } : { archived });
+  } catch (error) {
+    console.error('Error updating chat archive setting:', error);
+    throw error;
+  }
+};
+
+// Hide a chat for the current user only; it comes back when a new message arrives.
+// hiddenAt is a server timestamp so it compares correctly with the messages' createdAt.
+export const hideChatForMe = async (chatId: string): Promise<void> => {
+  try {
+    console.log(`Hiding chat ${chatId}`);
+    await updateChatSettings(chatId, { hiddenAt: serverTimestamp(), pinned: false, pinnedAt: null });
+  } catch (error) {
+    console.error('Error hiding chat:', error);
+    throw error;
+  }
+};
+
+// Check whether notifications for a chat are muted right now
+export const isChatMuted = (settings?: ChatSettings, now: number = Date.now()): boolean => {
+  if (!settings?.muted) return false;
+  return !settings.mutedUntil || settings.mutedUntil.getTime() > now;
+};
+
+// Check whether a chat was hidden and has had no new messages since
+export const isChatHidden = (chat: Chat, settings?: ChatSettings): boolean => {
+  if (!settings?.hiddenAt) return false;
+  const lastActivity = chat.lastMessage?.createdAt || chat.updatedAt;
+  return lastActivity.getTime() <= settings.hiddenAt.getTime();
+};
+
+// Split chats into the main list (pinned first) and the archive, dropping hidden ones
+export const organizeChats = (chats: Chat[], settings: Record<string, ChatSettings>) => {
+  const visible = chats.filter(chat => !isChatHidden(chat, settings[chat.id || '']));
+  const isArchived = (chat: Chat) => !!settings[chat.id || '']?.archived;
+  const pinnedAt = (chat: Chat) => {
+    const chatSettings = settings[chat.id || ''];
+    return chatSettings?.pinned ? (chatSettings.pinnedAt?.getTime() || 1) : 0;
+  };
+
+  // Pinned chats keep the order they were pinned in; the rest stay most recent first
+  const active = visible
+    .filter(chat => !isArchived(chat))
+    .sort((a, b) => pinnedAt(b) - pinnedAt(a) || b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  return { active, archived: visible.filter(isArchived) };
+};
+
+// Convert a stored settings entry, turning Timestamps into Dates
+const toChatSettings = (data: DocumentData): ChatSettings => ({
+  muted: !!data.muted,
+  mutedUntil: readOptionalDate(data, 'mutedUntil') || null,
+  pinned: !!data.pinned,
+  pinnedAt: readOptionalDate(data, 'pinnedAt') || null,
+  archived: !!data.archived,
+  hiddenAt: readOptionalDate(data, 'hiddenAt') || null,
+});
+
+// Hook to get the current user's settings for every chat, keyed by chat ID
+export const useChatSettings = () => {
+  const [settings, setSettings] = useState<Record<string, ChatSettings>>({});
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setSettings({});
+      setLoading(false);
+      return () => {};
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'chatSettings', userId),
+      (settingsDoc) => {
+        const next: Record<string, ChatSettings> = {};
+        // Pending server timestamps are estimated so a chat hides (or pins) right away
+        Object.entries(settingsDoc.data({ serverTimestamps: 'estimate' }) || {}).forEach(([chatId, data]) => {
+          next[chatId] = toChatSettings(data || {});
+        });
+        setSettings(next);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching chat settings:', err);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { settings, loading };
+};
+
+// Collection of chat settings services
+const chatSettingsServices = {
+  setChatMuted,
+  setChatPinned,
+  setChatArchived,
+  hideChatForMe,
+  isChatMuted,
+  isChatHidden,
+  organizeChats,
+  useChatSettings,
+};
+
+export default chatSettingsServices;
@@ -0,0 +1,359 @@
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  DocumentData,
+  getDoc,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { firestore } from '../firebase';
+import { userDocRef } from '../models/collections';
+import { getPlaceholderUser } from '../models/user';
+import { readDoc, readOptionalDate, readOptionalString, readString } from '../models/schema';
+import { getCurrentUser, User } from './user';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// Share codes avoid characters that are easy to confuse (0/O, 1/I/L)
+const SHARE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SHARE_CODE_LENGTH = 8;
+
+// A pending request from one user to become contacts with another
+export interface FriendRequest {
+  id: string;
+  from: string;
+  to: string;
+  fromName: string;
+  toName: string;
+  createdAt: Date;
+}
+
+// Who a share code belongs to
+export interface ShareCodeOwner {
+  uid: string;
+  displayName: string;
+}
+
+// Friend requests have one document per direction, so they can't be duplicated
+const getFriendRequestId = (from: string, to: string) => `${from}_${to}`;
+
+// Convert a friendRequests document
+const toFriendRequest = (id: string, data: DocumentData): FriendRequest => {
+  const from = readString(data, 'from');
+  const to = readString(data, 'to');
+  return {
+    id,
+    from,
+    to,
+    fromName: readOptionalString(data, 'fromName') || `User-${from.substring(0, 5)}`,
+    toName: readOptionalString(data, 'toName') || `User-${to.substring(0, 5)}`,
+    // Pending until the server sets it
+    createdAt: readOptionalDate(data, 'createdAt') || new Date(),
+  };
+};
+
+// Display name of the signed-in user, as stored on requests
+const getCurrentUserName = (currentUser: { uid: string; displayName: string | null }) => {
+  return currentUser.displayName || `User-${currentUser.uid.substring(0, 5)}`;
+};
+
+// Normalize a share code as typed by a user
+export const normalizeShareCode = (code: string): string => {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+// Generate a random share code
+const generateShareCode = (): string => {
+  let code = '';
+  for (let i = 0; i < SHARE_CODE_LENGTH; i++) {
+    code += SHARE_CODE_ALPHABET[Math.floor(Math.random() * SHARE_CODE_ALPHABET.length)];
+  }
+  return code;
+};
+
+// Claim a new share code for the current user, releasing the old one
+const claimShareCode = async (previousCode?: string): Promise<string> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  // Codes are random, so a collision is rare; try a few before giving up
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateShareCode();
+    const claimed = await runTransaction(firestore, async (transaction) => {
+      const codeRef = doc(firestore, 'shareCodes', code);
+      if ((await transaction.get(codeRef)).exists()) return false;
+
+      transaction.set(codeRef, {
+        uid: currentUser.uid,
+        displayName: getCurrentUserName(currentUser),
+        createdAt: serverTimestamp(),
+      });
+      transaction.set(userDocRef(currentUser.uid), { shareCode: code }, { merge: true });
+      if (previousCode) transaction.delete(doc(firestore, 'shareCodes', previousCode));
+      return true;
+    });
+
+    if (claimed) return code;
+  }
+
+  throw new Error('Could not create a share code. Please try again.');
+};
+
+// Get the current user's share code, creating one the first time
+export const getShareCode = async (): Promise<string> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    const userDoc = await getDoc(userDocRef(currentUser.uid));
+    const existing = userDoc.data()?.shareCode;
+    if (existing) return existing;
+
+    console.log('Creating share code for user:', currentUser.uid);
+    return await claimShareCode();
+  } catch (error) {
+    console.error('Error getting share code:', error);
+    throw error;
+  }
+};
+
+// Replace the current user's share code, so the old one stops working
+export const resetShareCode = async (): Promise<string> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    const userDoc = await getDoc(userDocRef(currentUser.uid));
+    console.log('Resetting share code for user:', currentUser.uid);
+    return await claimShareCode(userDoc.data()?.shareCode);
+  } catch (error) {
+    console.error('Error resetting share code:', error);
+    throw error;
+  }
+};
+
+// Look up who a share code belongs to
+export const findUserByShareCode = async (code: string): Promise<ShareCodeOwner | null> => {
+  const normalized = normalizeShareCode(code);
+  if (normalized.length !== SHARE_CODE_LENGTH) return null;
+
+  try {
+    const codeDoc = await getDoc(doc(firestore, 'shareCodes', normalized));
+    if (!codeDoc.exists()) return null;
+
+    const data = codeDoc.data();
+    return { uid: data.uid, displayName: data.displayName || `User-${data.uid.substring(0, 5)}` };
+  } catch (error) {
+    console.error('Error looking up share code:', error);
+    throw error;
+  }
+};
+
+// Accept a friend request sent to the current user: both users add each other
+export const acceptFriendRequest = async (request: FriendRequest): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser || currentUser.uid !== request.to) throw new Error('This request is not for you');
+
+  try {
+    console.log(`Accepting friend request from ${request.from}`);
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, 'contacts', request.to), {
+      [request.from]: { addedAt: serverTimestamp() },
+    }, { merge: true });
+    batch.set(doc(firestore, 'contacts', request.from), {
+      [request.to]: { addedAt: serverTimestamp() },
+    }, { merge: true });
+    batch.delete(doc(firestore, 'friendRequests', request.id));
+    await batch.commit();
+  } catch (error) {
+    console.error('Error accepting friend request:', error);
+    throw error;
+  }
+};
+
+// Send a friend request. If the other user already asked us, accept theirs instead.
+export const sendFriendRequest = async (toUserId: string, toName: string): Promise<'sent' | 'accepted'> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+  if (toUserId === currentUser.uid) throw new Error('You cannot add yourself');
+
+  try {
+    const contactsDoc = await getDoc(doc(firestore, 'contacts', currentUser.uid));
+    if (contactsDoc.data()?.[toUserId]) throw new Error(`${toName} is already in your contacts`);
+
+    const reverseId = getFriendRequestId(toUserId, currentUser.uid);
+    const reverseDoc = await getDoc(doc(firestore, 'friendRequests', reverseId));
+    if (reverseDoc.exists()) {
+      await acceptFriendRequest(toFriendRequest(reverseId, reverseDoc.data()));
+      return 'accepted';
+    }
+
+    console.log(`Sending friend request to ${toUserId}`);
+    await setDoc(doc(firestore, 'friendRequests', getFriendRequestId(currentUser.uid, toUserId)), {
+      from: currentUser.uid,
+      to: toUserId,
+      fromName: getCurrentUserName(currentUser),
+      toName,
+      createdAt: serverTimestamp(),
+    });
+    return 'sent';
+  } catch (error) {
+    console.error('Error sending friend request:', error);
+    throw error;
+  }
+};
+
+// Decline a request sent to the current user, or cancel one they sent
+export const deleteFriendRequest = async (request: FriendRequest): Promise<void> => {
+  try {
+    console.log(`Deleting friend request ${request.id}`);
+    await deleteDoc(doc(firestore, 'friendRequests', request.id));
+  } catch (error) {
+    console.error('Error deleting friend request:', error);
+    throw error;
+  }
+};
+
+// Remove a contact for both users
+export const removeContact = async (userId: string): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    console.log(`Removing contact ${userId}`);
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, 'contacts', currentUser.uid), { [userId]: deleteField() }, { merge: true });
+    batch.set(doc(firestore, 'contacts', userId), { [currentUser.uid]: deleteField() }, { merge: true });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error removing contact:', error);
+    throw error;
+  }
+};
+
+// Hook to get the current user's contacts with their profiles, sorted by name
+export const useContacts = () => {
+  const [contactIds, setContactIds] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, User>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  // The contact list is one document mapping contact IDs to when they were added
+  useEffect(() => {
+    if (!userId) {
+      setContactIds([]);
+      setLoading(false);
+      return () => {};
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'contacts', userId),
+      (contactsDoc) => {
+        setContactIds(Object.keys(contactsDoc.data() || {}).sort());
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error('Error fetching contacts:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Follow each contact's profile (readable because they added us back)
+  const contactKey = contactIds.join(',');
+  useEffect(() => {
+    const ids = contactKey ? contactKey.split(',') : [];
+
+    const unsubscribes = ids.map(contactId => onSnapshot(
+      userDocRef(contactId),
+      (userDoc) => {
+        setProfiles(prev => ({ ...prev, [contactId]: readDoc(userDoc) || getPlaceholderUser(contactId) }));
+      },
+      (err) => {
+        console.error(`Error fetching contact ${contactId}:`, err);
+      }
+    ));
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [contactKey]);
+
+  const contacts = contactIds
+    .filter(contactId => profiles[contactId])
+    .map(contactId => profiles[contactId])
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  return { contacts, loading, error };
+};
+
+// Hook to get the friend requests sent to and by the current user
+export const useFriendRequests = () => {
+  const [incoming, setIncoming] = useState<FriendRequest[]>([]);
+  const [outgoing, setOutgoing] = useState<FriendRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setIncoming([]);
+      setOutgoing([]);
+      setLoading(false);
+      return () => {};
+    }
+
+    const requestsRef = collection(firestore, 'friendRequests');
+    const subscribe = (field: 'from' | 'to', setRequests: (requests: FriendRequest[]) => void) => onSnapshot(
+      query(requestsRef, where(field, '==', userId)),
+      (snapshot) => {
+        setRequests(snapshot.docs
+          .map(requestDoc => toFriendRequest(requestDoc.id, requestDoc.data()))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching friend requests:', err);
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeIncoming = subscribe('to', setIncoming);
+    const unsubscribeOutgoing = subscribe('from', setOutgoing);
+
+    return () => {
+      unsubscribeIncoming();
+      unsubscribeOutgoing();
+    };
+  }, [userId]);
+
+  return { incoming, outgoing, loading };
+};
+
+// Collection of contact services
+const contactServices = {
+  normalizeShareCode,
+  getShareCode,
+  resetShareCode,
+  findUserByShareCode,
+  sendFriendRequest,
+  acceptFriendRequest,
+  deleteFriendRequest,
+  removeContact,
+  useContacts,
+  useFriendRequests,
+};
+
+export default contactServices;
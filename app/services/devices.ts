@@ -0,0 +1,255 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { collection, doc, getDoc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { firestore } from '../firebase';
+import { getCurrentUser } from './user';
+import { readOptionalDate, readOptionalString } from '../models/schema';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// A new session ID is stored here on every sign-in. Revoking a device revokes
+// the session it had at the time, so signing in again on it isn't affected.
+const SESSION_STORAGE_KEY = 'device_session_id';
+
+// A device the user is (or was) signed in on, stored at users/{uid}/devices/{deviceId}
+export interface DeviceSession {
+  id: string;
+  platform: string;
+  model: string;
+  osVersion: string | null;
+  appVersion: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  // Whether this is the device the app is running on
+  isCurrent: boolean;
+}
+
+// Get a unique device ID
+export const getDeviceId = async (): Promise<string> => {
+  try {
+    // Try to get the stored device ID first
+    const storedDeviceId = await AsyncStorage.getItem('device_id');
+
+    if (storedDeviceId) {
+      console.log('Using stored device ID:', storedDeviceId);
+      return storedDeviceId;
+    }
+
+    // Generate a new device ID based on device information
+    let deviceInfo = '';
+
+    // Get device brand
+    if (Device.brand) {
+      deviceInfo += Device.brand;
+    }
+
+    // Get device model
+    if (Device.modelName) {
+      deviceInfo += `-${Device.modelName}`;
+    }
+
+    // Get device OS
+    if (Device.osName) {
+      deviceInfo += `-${Device.osName}`;
+    }
+
+    // If we couldn't get any device info, use a timestamp
+    if (!deviceInfo) {
+      deviceInfo = `device-${Date.now()}`;
+    }
+
+    // Add a random component to ensure uniqueness
+    const randomComponent = Math.random().toString(36).substring(2, 10);
+    const deviceId = `${deviceInfo}-${randomComponent}`;
+
+    // Store the device ID for future use
+    await AsyncStorage.setItem('device_id', deviceId);
+
+    console.log('Generated and stored new device ID:', deviceId);
+    return deviceId;
+  } catch (error) {
+    console.error('Error getting device ID:', error);
+    // Fallback to a timestamp-based ID
+    const fallbackId = `fallback-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+    console.log('Using fallback device ID:', fallbackId);
+    return fallbackId;
+  }
+};
+
+// Device IDs include the model name, which may contain a slash
+const toDeviceDocId = (deviceId: string) => deviceId.replace(/\//g, '_');
+
+// Generate a session ID
+const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+
+// Get the current session ID, creating one for sessions that predate them
+const getSessionId = async (): Promise<string> => {
+  const storedSessionId = await AsyncStorage.getItem(SESSION_STORAGE_KEY);
+  if (storedSessionId) return storedSessionId;
+
+  const sessionId = createSessionId();
+  await AsyncStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  return sessionId;
+};
+
+// Start a new session on this device. Call before signing in, so a revoked
+// device can be used again once someone signs in on it.
+export const startDeviceSession = async (): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SESSION_STORAGE_KEY, createSessionId());
+  } catch (error) {
+    console.error('Error starting device session:', error);
+  }
+};
+
+// Add this device to the signed-in user's device registry, or update when it was last seen
+export const registerDevice = async (): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) return;
+
+  try {
+    const [deviceId, sessionId] = await Promise.all([getDeviceId(), getSessionId()]);
+    const deviceRef = doc(firestore, 'users', currentUser.uid, 'devices', toDeviceDocId(deviceId));
+    const deviceDoc = await getDoc(deviceRef);
+
+    console.log(`Registering device ${deviceId} for user: ${currentUser.uid}`);
+    await setDoc(deviceRef, {
+      deviceId,
+      sessionId,
+      platform: Platform.OS,
+      model: [Device.brand, Device.modelName].filter(Boolean).join(' ') || 'Unknown device',
+      osVersion: Device.osVersion || null,
+      appVersion: Constants.expoConfig?.version || null,
+      lastSeenAt: serverTimestamp(),
+      ...(deviceDoc.exists() ? {} : { firstSeenAt: serverTimestamp() }),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error registering device:', error);
+  }
+};
+
+// Revoke another device's session: it signs out the next time it sees the change
+export const revokeDevice = async (deviceDocId: string): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    const deviceRef = doc(firestore, 'users', currentUser.uid, 'devices', deviceDocId);
+    const deviceDoc = await getDoc(deviceRef);
+    if (!deviceDoc.exists()) return;
+
+    console.log(`Revoking device ${deviceDocId}`);
+    await setDoc(deviceRef, {
+      revokedSessionId: deviceDoc.data().sessionId,
+      revokedAt: serverTimestamp(),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error revoking device:', error);
+    throw error;
+  }
+};
+
+// Watch this device's registry entry and call onRevoked if its session is revoked.
+// Returns a function to stop watching.
+export const watchDeviceRevocation = (userId: string, onRevoked: () => void): () => void => {
+  let unsubscribe: (() => void) | null = null;
+  let stopped = false;
+
+  Promise.all([getDeviceId(), getSessionId()]).then(([deviceId, sessionId]) => {
+    if (stopped) return;
+    unsubscribe = onSnapshot(
+      doc(firestore, 'users', userId, 'devices', toDeviceDocId(deviceId)),
+      (deviceDoc) => {
+        if (deviceDoc.data()?.revokedSessionId === sessionId) {
+          console.log('This device was signed out from another device');
+          onRevoked();
+        }
+      },
+      (error) => console.error('Error watching device:', error)
+    );
+  }).catch(error => console.error('Error reading device session:', error));
+
+  return () => {
+    stopped = true;
+    unsubscribe?.();
+  };
+};
+
+// Hook to get the signed-in user's active devices, most recently seen first
+export const useDevices = () => {
+  const [devices, setDevices] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    getDeviceId()
+      .then(deviceId => setCurrentDeviceId(toDeviceDocId(deviceId)))
+      .catch(error => console.error('Error reading device ID:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setDevices([]);
+      setLoading(false);
+      return () => {};
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      collection(firestore, 'users', userId, 'devices'),
+      (snapshot) => {
+        const deviceList: DeviceSession[] = snapshot.docs
+          // A revoked device drops off the list until someone signs in on it again
+          .filter(deviceDoc => deviceDoc.data().revokedSessionId !== deviceDoc.data().sessionId)
+          .map((deviceDoc) => {
+            const data = deviceDoc.data({ serverTimestamps: 'estimate' });
+            return {
+              id: deviceDoc.id,
+              platform: readOptionalString(data, 'platform') || 'unknown',
+              model: readOptionalString(data, 'model') || 'Unknown device',
+              osVersion: readOptionalString(data, 'osVersion'),
+              appVersion: readOptionalString(data, 'appVersion'),
+              firstSeenAt: readOptionalDate(data, 'firstSeenAt') || new Date(),
+              lastSeenAt: readOptionalDate(data, 'lastSeenAt') || new Date(),
+              isCurrent: false,
+            };
+          })
+          .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+
+        setDevices(deviceList);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error('Error fetching devices:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return {
+    devices: devices.map(device => ({ ...device, isCurrent: device.id === currentDeviceId })),
+    loading,
+    error,
+  };
+};
+
+// Collection of device services
+const deviceServices = {
+  getDeviceId,
+  startDeviceSession,
+  registerDevice,
+  revokeDevice,
+  watchDeviceRevocation,
+  useDevices,
+};
+
+export default deviceServices;
@@ -0,0 +1,130 @@
+import { addDoc, collection, deleteField, doc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { firestore } from '../firebase';
+import { Chat, Message, getCurrentUser } from './chat';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// Reasons offered when reporting a user or message
+export const REPORT_REASONS = ['Spam', 'Harassment', 'Inappropriate content', 'Impersonation', 'Other'] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// What is being reported: a user, optionally one of their messages in a chat
+export interface ReportTarget {
+  userId: string;
+  userName: string;
+  chat?: Pick<Chat, 'id' | 'isGroup' | 'participants'> | null;
+  message?: Message | null;
+}
+
+// Block a user: they disappear from the current user's lists and can no longer
+// start 1:1 chats with or message them (enforced in firestore.rules)
+export const blockUser = async (userId: string): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+  if (userId === currentUser.uid) throw new Error('You cannot block yourself');
+
+  try {
+    console.log(`Blocking user ${userId}`);
+    // blockedUsers/{uid} maps each blocked user's ID to when they were blocked
+    await setDoc(doc(firestore, 'blockedUsers', currentUser.uid), {
+      [userId]: serverTimestamp(),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    throw error;
+  }
+};
+
+// Unblock a previously blocked user
+export const unblockUser = async (userId: string): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  try {
+    console.log(`Unblocking user ${userId}`);
+    await setDoc(doc(firestore, 'blockedUsers', currentUser.uid), {
+      [userId]: deleteField(),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    throw error;
+  }
+};
+
+// Report a user or message for moderators, with enough context to review it
+// without access to the chat
+export const submitReport = async (target: ReportTarget, reason: ReportReason): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  const { message, chat } = target;
+
+  try {
+    console.log(`Reporting ${message ? `message ${message.id}` : `user ${target.userId}`} for: ${reason}`);
+    await addDoc(collection(firestore, 'reports'), {
+      reporterId: currentUser.uid,
+      reportedUserId: target.userId,
+      reason,
+      chatId: chat?.id || message?.chatId || null,
+      messageId: message?.id || null,
+      // A copy of what was reported, in case it is edited or deleted later
+      context: {
+        reportedUserName: target.userName,
+        isGroup: !!chat?.isGroup,
+        participantCount: chat?.participants.length || null,
+        messageText: message?.text ?? null,
+        messageAttachmentUrls: message?.attachments?.map(attachment => attachment.url) || [],
+        messageCreatedAt: message?.createdAt || null,
+        messageEditedAt: message?.editedAt || null,
+      },
+      status: 'open',
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error submitting report:', error);
+    throw error;
+  }
+};
+
+// Hook to get the IDs of the users the current user has blocked
+export const useBlockedUsers = () => {
+  const [blockedIds, setBlockedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setBlockedIds([]);
+      setLoading(false);
+      return () => {};
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'blockedUsers', userId),
+      (blockedDoc) => {
+        setBlockedIds(Object.keys(blockedDoc.data() || {}));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching blocked users:', err);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { blockedIds, loading };
+};
+
+// Collection of moderation services
+const moderationServices = {
+  blockUser,
+  unblockUser,
+  submitReport,
+  useBlockedUsers,
+};
+
+export default moderationServices;
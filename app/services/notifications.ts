@@ -0,0 +1,200 @@
+import * as Notifications from 'expo-notifications';
+import { useRouter } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { Chat, useChats, getChatTitle } from './chat';
+import { useChatSettings, isChatMuted } from './chatSettings';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// A notification about activity in a chat
+export interface ChatNotification {
+  chatId: string;
+  title: string;
+  body: string;
+}
+
+// Delivers notifications to the device. The local provider below shows them
+// from the running app; a push provider can replace it via setNotificationProvider.
+export interface NotificationProvider {
+  // Ask for permission to show notifications; resolves to whether it was granted
+  requestPermission: () => Promise<boolean>;
+  present: (notification: ChatNotification) => Promise<void>;
+  setBadgeCount: (count: number) => Promise<void>;
+  // Call `listener` with the chat ID when the user taps a notification; returns an unsubscribe function
+  addOpenListener: (listener: (chatId: string) => void) => () => void;
+  // Chat ID of the notification that launched the app, if any
+  getLaunchChatId: () => Promise<string | null>;
+}
+
+// Show foreground notifications as banners too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: true,
+  }),
+});
+
+// Notifications raised on the device with expo-notifications
+export const localNotificationProvider: NotificationProvider = {
+  requestPermission: async () => {
+    const existing = await Notifications.getPermissionsAsync();
+    if (existing.granted) return true;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+  present: async ({ chatId, title, body }) => {
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body, data: { chatId } },
+      trigger: null,
+    });
+  },
+  setBadgeCount: async (count) => {
+    await Notifications.setBadgeCountAsync(count);
+  },
+  addOpenListener: (listener) => {
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      const chatId = response.notification.request.content.data?.chatId;
+      if (typeof chatId === 'string') listener(chatId);
+    });
+    return () => subscription.remove();
+  },
+  getLaunchChatId: async () => {
+    const response = await Notifications.getLastNotificationResponseAsync();
+    const chatId = response?.notification.request.content.data?.chatId;
+    return typeof chatId === 'string' ? chatId : null;
+  },
+};
+
+let provider: NotificationProvider = localNotificationProvider;
+
+// Chat currently on screen; its messages don't raise notifications
+let activeChatId: string | null = null;
+
+// Swap how notifications are delivered (e.g. for a push provider)
+export const setNotificationProvider = (next: NotificationProvider): void => {
+  provider = next;
+};
+
+// Get the provider notifications are delivered through
+export const getNotificationProvider = (): NotificationProvider => provider;
+
+// Tell the notification subsystem which chat is on screen (null when none)
+export const setActiveChat = (chatId: string | null): void => {
+  activeChatId = chatId;
+};
+
+// Build the notification for a chat's new last message
+export const getMessageNotification = (chat: Chat, currentUserId: string): ChatNotification | null => {
+  if (!chat.id || !chat.lastMessage) return null;
+
+  const senderId = chat.lastMessage.senderId;
+  const senderName = chat.participantNames[senderId] || `User-${senderId.substring(0, 5)}`;
+  const title = getChatTitle(chat, currentUserId);
+
+  return {
+    chatId: chat.id,
+    // Group notifications name the group and prefix the sender
+    title: chat.isGroup ? title : senderName,
+    body: chat.isGroup ? `${senderName}: ${chat.lastMessage.text}` : chat.lastMessage.text,
+  };
+};
+
+// Hook that raises notifications for new messages in the user's chats, keeps
+// the app icon badge in sync with unread counts, and opens tapped chats
+export const useChatNotifications = () => {
+  const { chats, loading, fromCache } = useChats();
+  const { settings } = useChatSettings();
+  const router = useRouter();
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+  // Last message we have seen per chat; undefined until the first server snapshot
+  const seenRef = useRef<Map<string, string> | undefined>(undefined);
+  // User the baseline belongs to; chats from before a switch are stale for one render
+  const seenUserRef = useRef<string | undefined>(userId);
+
+  // Ask for permission once a user is signed in
+  useEffect(() => {
+    if (!userId) return;
+    provider.requestPermission()
+      .then(granted => console.log(`Notification permission ${granted ? 'granted' : 'denied'}`))
+      .catch(error => console.error('Error requesting notification permission:', error));
+  }, [userId]);
+
+  // Open the chat when a notification is tapped (including the one that launched the app)
+  useEffect(() => {
+    if (!userId) return () => {};
+
+    const openChat = (chatId: string) => {
+      router.push({ pathname: '/chat/[id]', params: { id: chatId } });
+    };
+
+    provider.getLaunchChatId()
+      .then(chatId => chatId && openChat(chatId))
+      .catch(error => console.error('Error reading launch notification:', error));
+
+    return provider.addOpenListener(openChat);
+  }, [userId, router]);
+
+  // Compare each snapshot with the previous one to find new incoming messages
+  useEffect(() => {
+    if (!userId || seenUserRef.current !== userId) {
+      seenUserRef.current = userId;
+      seenRef.current = undefined;
+      return;
+    }
+    // Cached snapshots can be stale; wait for the server before taking a baseline
+    if (loading || fromCache) return;
+
+    const lastMessageKey = (chat: Chat) => {
+      if (!chat.lastMessage) return '';
+      return chat.lastMessage.messageId || String(chat.lastMessage.createdAt.getTime());
+    };
+
+    const previous = seenRef.current;
+    const next = new Map(chats.map(chat => [chat.id!, lastMessageKey(chat)]));
+    seenRef.current = next;
+
+    // The first snapshot is only a baseline
+    if (!previous) return;
+
+    chats.forEach(chat => {
+      const key = next.get(chat.id!);
+      if (!key || previous.get(chat.id!) === key) return;
+
+      const senderId = chat.lastMessage!.senderId;
+      if (senderId === userId || senderId === 'system') return;
+      if (chat.id === activeChatId || isChatMuted(settings[chat.id!])) return;
+
+      const notification = getMessageNotification(chat, userId);
+      if (notification) {
+        provider.present(notification)
+          .catch(error => console.error('Error presenting notification:', error));
+      }
+    });
+  }, [chats, loading, fromCache, settings, userId]);
+
+  // Badge the app icon with the number of unread messages in unmuted chats
+  useEffect(() => {
+    if (loading) return;
+    const unread = userId
+      ? chats
+        .filter(chat => !isChatMuted(settings[chat.id!]))
+        .reduce((total, chat) => total + (chat.unreadCount || 0), 0)
+      : 0;
+
+    provider.setBadgeCount(unread)
+      .catch(error => console.error('Error setting badge count:', error));
+  }, [chats, loading, settings, userId]);
+};
+
+// Collection of notification services
+const notificationServices = {
+  localNotificationProvider,
+  setNotificationProvider,
+  getNotificationProvider,
+  setActiveChat,
+  getMessageNotification,
+  useChatNotifications,
+};
+
+export default notificationServices;
@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { Chat } from '../models/chat';
+import { Message } from '../models/message';
+
+// Firestore's cache only lives in memory on iOS and Android (see firebase.ts), so
+// the newest chats and messages are also saved to AsyncStorage. useChats and
+// useMessages show them until the server answers, so an app started offline
+// still has something to read. The web build persists Firestore's own cache.
+export const OFFLINE_SNAPSHOTS_ENABLED = Platform.OS !== 'web';
+
+// Most chats, and messages per chat, kept for offline reading
+const MAX_CACHED_CHATS = 50;
+const MAX_CACHED_MESSAGES = 50;
+
+// Snapshots are kept per user, so another account on the device never sees them
+const chatsKey = (userId: string) => `offline_chats_${userId}`;
+const messagesKey = (userId: string, chatId: string) => `offline_messages_${userId}_${chatId}`;
+
+// Fields stored as ISO strings that read back as Dates
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'editedAt']);
+
+// Turn the dates of a saved snapshot back into Dates
+const reviveDates = (key: string, value: unknown) => {
+  if (DATE_FIELDS.has(key) && typeof value === 'string') return new Date(value);
+  if (key === 'lastReadAt' && value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([uid, date]) => [uid, new Date(date as string)]));
+  }
+  return value;
+};
+
+// Save a list under a key, logging (not throwing) if storage fails
+const saveList = async <T>(key: string, items: T[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving offline snapshot:', error);
+  }
+};
+
+// Read a saved list, or an empty one if there is none (or it can't be read)
+const loadList = async <T>(key: string): Promise<T[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored, reviveDates) : [];
+  } catch (error) {
+    console.error('Error loading offline snapshot:', error);
+    return [];
+  }
+};
+
+// Save the user's newest chats, as the server last returned them
+export const saveCachedChats = (userId: string, chats: Chat[]): Promise<void> => {
+  if (!OFFLINE_SNAPSHOTS_ENABLED) return Promise.resolve();
+  return saveList(chatsKey(userId), chats.slice(0, MAX_CACHED_CHATS));
+};
+
+// Get the user's saved chats, newest first
+export const loadCachedChats = (userId: string): Promise<Chat[]> => {
+  if (!OFFLINE_SNAPSHOTS_ENABLED) return Promise.resolve([]);
+  return loadList<Chat>(chatsKey(userId));
+};
+
+// Save a chat's newest messages (newest first), as the server last returned them
+export const saveCachedMessages = (userId: string, chatId: string, messages: Message[]): Promise<void> => {
+  if (!OFFLINE_SNAPSHOTS_ENABLED) return Promise.resolve();
+  return saveList(
+    messagesKey(userId, chatId),
+    messages.slice(0, MAX_CACHED_MESSAGES).map(({ pending, ...message }) => message)
+  );
+};
+
+// Get a chat's saved messages, newest first
+export const loadCachedMessages = (userId: string, chatId: string): Promise<Message[]> => {
+  if (!OFFLINE_SNAPSHOTS_ENABLED) return Promise.resolve([]);
+  return loadList<Message>(messagesKey(userId, chatId));
+};
+
+// Combine a saved snapshot with what Firestore's cache has so far: documents in
+// both come from the cache (it has any offline writes), sorted newest first
+export const mergeWithCached = <T extends { id?: string }>(
+  cached: T[],
+  live: T[],
+  getTime: (item: T) => number
+): T[] => {
+  const liveIds = new Set(live.map(item => item.id));
+  return [...live, ...cached.filter(item => !liveIds.has(item.id))]
+    .sort((a, b) => getTime(b) - getTime(a));
+};
+
+// Collection of offline cache services
+const offlineCacheServices = {
+  saveCachedChats,
+  loadCachedChats,
+  saveCachedMessages,
+  loadCachedMessages,
+  mergeWithCached,
+};
+
+export default offlineCacheServices;
@@ -0,0 +1,227 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useState } from 'react';
+import { sendMessage, createMessageId, getCurrentUser, MessageReply } from './chat';
+import { Attachment, LocalAttachment, uploadAttachment } from './attachments';
+
+// Outgoing messages are persisted under this AsyncStorage key so they survive app restarts
+const OUTBOX_STORAGE_KEY = 'message_outbox';
+
+// Status of a message that has not been acknowledged by Firestore yet
+export type OutgoingMessageStatus = 'pending' | 'failed';
+
+// Outgoing message interface
+export interface OutgoingMessage {
+  // Client-generated message ID, reused as the Firestore document ID
+  id: string;
+  chatId: string;
+  text: string;
+  senderId: string;
+  senderName: string;
+  createdAt: string;
+  status: OutgoingMessageStatus;
+  // Number of delivery attempts so far
+  attempts: number;
+  // Files picked on this device, uploaded before the message is written
+  localAttachments?: LocalAttachment[];
+  // Uploaded attachments, kept so a retry doesn't upload them again
+  attachments?: Attachment[];
+  // Upload progress between 0 and 1 while attachments are uploading
+  progress?: number;
+  // Message being replied to
+  replyTo?: MessageReply;
+}
+
+// Optional parts of a queued message
+export interface EnqueueMessageOptions {
+  // Picked files to upload and attach
+  attachments?: LocalAttachment[];
+  replyTo?: MessageReply;
+}
+
+type OutboxListener = (messages: OutgoingMessage[]) => void;
+
+// The queue is shared by every screen, so it lives at module level
+let outbox: OutgoingMessage[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<OutboxListener>();
+const inFlight = new Set<string>();
+
+// Replace the queue, notify subscribers and persist it
+const setOutbox = (next: OutgoingMessage[], persist = true) => {
+  outbox = next;
+  listeners.forEach(listener => listener(outbox));
+  if (!persist) return;
+  AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox))
+    .catch(err => console.error('Error persisting outbox:', err));
+};
+
+// Update the status of a queued message
+const setStatus = (id: string, status: OutgoingMessageStatus) => {
+  setOutbox(outbox.map(message => (message.id === id ? { ...message, status } : message)));
+};
+
+// Upload a queued message's attachments, reporting combined progress
+const uploadAttachments = async (message: OutgoingMessage): Promise<Attachment[]> => {
+  if (message.attachments) return message.attachments;
+
+  const locals = message.localAttachments || [];
+  const progress = locals.map(() => 0);
+  const reportProgress = () => {
+    const total = progress.reduce((sum, value) => sum + value, 0) / locals.length;
+    // Progress changes too often to be worth persisting
+    setOutbox(outbox.map(m => (m.id === message.id ? { ...m, progress: total } : m)), false);
+  };
+
+  const attachments = await Promise.all(
+    locals.map((local, index) =>
+      uploadAttachment(message.chatId, message.id, local, (value) => {
+        progress[index] = value;
+        reportProgress();
+      })
+    )
+  );
+
+  setOutbox(outbox.map(m => (m.id === message.id ? { ...m, attachments, progress: 1 } : m)));
+  return attachments;
+};
+
+// Write a queued message to Firestore; it leaves the queue once the write is acknowledged
+const deliver = async (id: string): Promise<void> => {
+  const message = outbox.find(m => m.id === id);
+  if (!message || inFlight.has(id)) return;
+
+  // Never send another account's queued messages
+  const currentUser = getCurrentUser();
+  if (!currentUser || currentUser.uid !== message.senderId) return;
+
+  inFlight.add(id);
+  setOutbox(outbox.map(m => (m.id === id ? { ...m, status: 'pending', attempts: m.attempts + 1 } : m)));
+
+  try {
+    const attachments = message.localAttachments?.length ? await uploadAttachments(message) : undefined;
+
+    // Only a repeat attempt can find the message already on the server
+    await sendMessage(message.chatId, message.text, {
+      messageId: message.id,
+      dedupe: message.attempts > 0,
+      attachments,
+      replyTo: message.replyTo,
+    });
+    console.log('Outgoing message acknowledged:', id);
+    setOutbox(outbox.filter(m => m.id !== id));
+  } catch (error) {
+    console.error('Error delivering outgoing message:', error);
+    setStatus(id, 'failed');
+  } finally {
+    inFlight.delete(id);
+  }
+};
+
+// Restore the queue from AsyncStorage (once per app launch)
+const loadOutbox = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(OUTBOX_STORAGE_KEY)
+      .then((stored) => {
+        const restored: OutgoingMessage[] = (stored ? JSON.parse(stored) : []).map(
+          (m: OutgoingMessage) => ({ ...m, attempts: m.attempts || 0 })
+        );
+        const restoredIds = new Set(restored.map(m => m.id));
+
+        // Keep anything queued while the stored copy was loading
+        setOutbox([...restored, ...outbox.filter(m => !restoredIds.has(m.id))]);
+        console.log(`Restored ${restored.length} outgoing messages`);
+      })
+      .catch((error) => {
+        console.error('Error loading outbox:', error);
+      });
+  }
+  return loadPromise;
+};
+
+// Resend every message that was still pending, e.g. after an app restart
+export const flushOutbox = async (): Promise<void> => {
+  await loadOutbox();
+  outbox
+    .filter(message => message.status === 'pending')
+    .forEach(message => deliver(message.id));
+};
+
+// Queue a message (with any picked attachments) and start sending it
+export const enqueueMessage = async (
+  chatId: string,
+  text: string,
+  options: EnqueueMessageOptions = {}
+): Promise<OutgoingMessage> => {
+  const localAttachments = options.attachments || [];
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  await loadOutbox();
+
+  const message: OutgoingMessage = {
+    id: createMessageId(),
+    chatId,
+    text,
+    senderId: currentUser.uid,
+    senderName: currentUser.displayName || `User-${currentUser.uid.substring(0, 5)}`,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    ...(localAttachments.length > 0 && { localAttachments, progress: 0 }),
+    ...(options.replyTo && { replyTo: options.replyTo }),
+  };
+
+  setOutbox([...outbox, message]);
+  deliver(message.id);
+
+  return message;
+};
+
+// Try sending a failed message again
+export const retryMessage = (id: string): Promise<void> => {
+  return deliver(id);
+};
+
+// Drop a message from the queue without sending it
+export const discardMessage = (id: string): void => {
+  setOutbox(outbox.filter(m => m.id !== id));
+};
+
+// Hook to get the queued messages for a chat
+export const useOutbox = (chatId: string) => {
+  const [messages, setMessages] = useState<OutgoingMessage[]>(
+    outbox.filter(m => m.chatId === chatId)
+  );
+
+  useEffect(() => {
+    const listener: OutboxListener = (queue) => {
+      setMessages(queue.filter(m => m.chatId === chatId));
+    };
+
+    listeners.add(listener);
+    flushOutbox();
+    listener(outbox);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }, [chatId]);
+
+  const send = useCallback(
+    (text: string, options?: EnqueueMessageOptions) => enqueueMessage(chatId, text, options),
+    [chatId]
+  );
+
+  return { outgoing: messages, send, retry: retryMessage, discard: discardMessage };
+};
+
+// Collection of outbox services
+const outboxServices = {
+  enqueueMessage,
+  retryMessage,
+  discardMessage,
+  flushOutbox,
+  useOutbox,
+};
+
+export default outboxServices;
@@ -0,0 +1,264 @@
+import { doc, setDoc, onSnapshot, serverTimestamp, deleteField, Timestamp } from 'firebase/firestore';
+import { AppState, AppStateStatus } from 'react-native';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { firestore } from '../firebase';
+import { getCurrentUser } from './chat';
+import { userDocRef } from '../models/collections';
+import { readDoc } from '../models/schema';
+
+// How often a foregrounded app refreshes the user's lastActive timestamp
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Without a heartbeat for this long a user counts as offline (the app may have
+// been killed or lost its connection without saying goodbye)
+const PRESENCE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+// Typing is refreshed at most this often while the user keeps typing...
+const TYPING_THROTTLE_MS = 3 * 1000;
+
+// ...cleared after this long without a keystroke...
+const TYPING_IDLE_MS = 5 * 1000;
+
+// ...and ignored by readers once it is older than this
+const TYPING_TIMEOUT_MS = 10 * 1000;
+
+// Presence state written by the app
+export type PresenceState = 'online' | 'away' | 'offline';
+
+// Presence of a user as shown to others
+export interface Presence {
+  state: PresenceState;
+  lastActive?: Date;
+}
+
+// Write the current user's presence and refresh lastActive
+export const setPresence = async (userId: string, state: PresenceState): Promise<void> => {
+  try {
+    await setDoc(userDocRef(userId), {
+      presence: state,
+      lastActive: serverTimestamp(),
+    }, { merge: true });
+  } catch (error) {
+    console.error(`Error setting presence to ${state}:`, error);
+  }
+};
+
+// Keep the user's presence up to date while the app runs; returns a function that stops it
+export const startPresence = (userId: string): (() => void) => {
+  console.log(`Starting presence heartbeat for user: ${userId}`);
+
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  const goOnline = () => {
+    setPresence(userId, 'online');
+    if (!heartbeat) {
+      heartbeat = setInterval(() => setPresence(userId, 'online'), HEARTBEAT_INTERVAL_MS);
+    }
+  };
+
+  const goAway = () => {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+    setPresence(userId, 'away');
+  };
+
+  const handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      goOnline();
+    } else if (state === 'background') {
+      goAway();
+    }
+  };
+
+  if (AppState.currentState !== 'background') {
+    goOnline();
+  }
+  const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+  return () => {
+    console.log(`Stopping presence heartbeat for user: ${userId}`);
+    subscription.remove();
+    if (heartbeat) clearInterval(heartbeat);
+  };
+};
+
+// Work out how a user's presence should be shown, treating stale heartbeats as offline
+export const getEffectivePresence = (
+  data: { presence?: PresenceState; lastActive?: Date },
+  now: number = Date.now()
+): PresenceState => {
+  if (!data.presence || data.presence === 'offline' || !data.lastActive) return 'offline';
+  if (now - data.lastActive.getTime() > PRESENCE_TIMEOUT_MS) return 'offline';
+  return data.presence;
+};
+
+// Format a "last seen" line, e.g. "last seen 5m ago"
+export const formatLastSeen = (lastActive?: Date, now: number = Date.now()): string => {
+  if (!lastActive) return 'offline';
+
+  const minutes = Math.floor((now - lastActive.getTime()) / 60000);
+  if (minutes < 1) return 'last seen just now';
+  if (minutes < 60) return `last seen ${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `last seen ${hours}h ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days === 1) return 'last seen yesterday';
+  if (days < 7) return `last seen ${days}d ago`;
+
+  return `last seen ${lastActive.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+};
+
+// Get the status line for a user: "Online", "Away" or "last seen X ago"
+export const getPresenceLabel = (presence: Presence, now: number = Date.now()): string => {
+  const state = getEffectivePresence(presence, now);
+  if (state === 'online') return 'Online';
+  if (state === 'away') return 'Away';
+  return formatLastSeen(presence.lastActive, now);
+};
+
+// Hook to get the current time, refreshed periodically so relative times stay current
+export const useNow = (intervalMs: number = 30 * 1000): number => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
+
+// Hook to follow one user's presence
+export const usePresence = (userId?: string | null) => {
+  const [presence, setPresenceData] = useState<Presence | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setPresenceData(null);
+      return () => {};
+    }
+
+    const unsubscribe = onSnapshot(
+      userDocRef(userId),
+      (userDoc) => {
+        const user = readDoc(userDoc);
+        setPresenceData({
+          state: user?.presence || 'offline',
+          lastActive: user?.lastActive,
+        });
+      },
+      (error) => {
+        console.error(`Error fetching presence for user ${userId}:`, error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return presence;
+};
+
+// Mark the current user as typing in a chat, or clear it
+const setTyping = async (chatId: string, isTyping: boolean): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) return;
+
+  try {
+    // One field per user, so participants never overwrite each other
+    await setDoc(doc(firestore, 'typing', chatId), {
+      [currentUser.uid]: isTyping ? serverTimestamp() : deleteField(),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating typing status:', error);
+  }
+};
+
+// Hook for a chat's typing indicator: who else is typing, and callbacks that
+// report the current user's typing from a TextInput
+export const useTypingIndicator = (chatId: string) => {
+  const [typingAt, setTypingAt] = useState<Record<string, Date>>({});
+  const lastSentRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const now = useNow(TYPING_TIMEOUT_MS / 2);
+
+  useEffect(() => {
+    if (!chatId) return () => {};
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'typing', chatId),
+      (typingDoc) => {
+        const data = typingDoc.data({ serverTimestamps: 'estimate' }) || {};
+        const next: Record<string, Date> = {};
+        Object.entries(data).forEach(([uid, at]) => {
+          if (at instanceof Timestamp) next[uid] = at.toDate();
+        });
+        setTypingAt(next);
+      },
+      (error) => {
+        console.error(`Error fetching typing status for chat ${chatId}:`, error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [chatId]);
+
+  // Stop typing: clear the pending idle timer and the stored timestamp
+  const stopTyping = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (lastSentRef.current > 0) {
+      lastSentRef.current = 0;
+      setTyping(chatId, false);
+    }
+  }, [chatId]);
+
+  // Call on every keystroke; writes are throttled and cleared after a pause
+  const notifyTyping = useCallback(() => {
+    if (Date.now() - lastSentRef.current > TYPING_THROTTLE_MS) {
+      lastSentRef.current = Date.now();
+      setTyping(chatId, true);
+    }
+
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [chatId, stopTyping]);
+
+  // Leaving the chat stops typing
+  useEffect(() => stopTyping, [stopTyping]);
+
+  const currentUserId = getCurrentUser()?.uid;
+  const typingUserIds = Object.entries(typingAt)
+    .filter(([uid, at]) => uid !== currentUserId && now - at.getTime() < TYPING_TIMEOUT_MS)
+    .map(([uid]) => uid);
+
+  return { typingUserIds, notifyTyping, stopTyping };
+};
+
+// Describe who is typing, e.g. "Alice is typing…"
+export const formatTypingLabel = (names: string[]): string => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return 'Several people are typing…';
+};
+
+// Collection of presence services
+const presenceServices = {
+  setPresence,
+  startPresence,
+  getEffectivePresence,
+  formatLastSeen,
+  getPresenceLabel,
+  usePresence,
+  useNow,
+  useTypingIndicator,
+  formatTypingLabel,
+};
+
+export default presenceServices;
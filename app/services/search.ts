@@ -0,0 +1,164 @@
+import { query, where, orderBy, limit, getDocs } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { messagesCollection } from '../models/collections';
+import { readDocs } from '../models/schema';
+import { Chat, Message, KEYWORD_MIN_PREFIX, tokenizeSearchText } from './chat';
+
+// Most matches fetched per chat for one search
+const RESULTS_PER_CHAT = 50;
+
+// Shorter words aren't indexed by their prefixes (see getSearchKeywords)
+const MIN_QUERY_LENGTH = KEYWORD_MIN_PREFIX;
+
+// Characters of context shown around the first match in a snippet
+const SNIPPET_CONTEXT = 40;
+
+// Narrow a search to one chat and/or one sender
+export interface SearchFilters {
+  chatId?: string | null;
+  senderId?: string | null;
+}
+
+// A message matching a search
+export interface SearchResult {
+  message: Message;
+  chatId: string;
+}
+
+// Part of a snippet, highlighted when it matches the search
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Check that every query token starts one of the message's words
+const matchesAllTokens = (message: Message, tokens: string[]): boolean => {
+  const words = tokenizeSearchText(message.text);
+  return tokens.every(token => words.some(word => word.startsWith(token)));
+};
+
+// Search the messages of the given chats. Each chat is queried on its keyword
+// index; offline, only messages already in the local cache are found.
+export const searchMessages = async (
+  chats: Chat[],
+  queryText: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> => {
+  const tokens = tokenizeSearchText(queryText);
+  if (tokens.length === 0) return [];
+
+  // The longest token narrows the results the most; the rest are checked locally
+  const indexToken = tokens.reduce((longest, token) => (token.length > longest.length ? token : longest));
+  if (indexToken.length < MIN_QUERY_LENGTH) return [];
+  const chatsToSearch = chats.filter(chat => chat.id && (!filters.chatId || chat.id === filters.chatId));
+
+  try {
+    console.log(`Searching ${chatsToSearch.length} chats for "${queryText}"`);
+
+    const pages = await Promise.all(chatsToSearch.map(chat =>
+      getDocs(query(
+        messagesCollection(),
+        where('chatId', '==', chat.id),
+        where('keywords', 'array-contains', indexToken),
+        orderBy('createdAt', 'desc'),
+        limit(RESULTS_PER_CHAT)
+      ))
+    ));
+
+    const results = pages
+      .flatMap(page => readDocs(page))
+      .filter(message =>
+        !message.deleted &&
+        message.senderId !== 'system' &&
+        (!filters.senderId || message.senderId === filters.senderId) &&
+        matchesAllTokens(message, tokens)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(message => ({ message, chatId: message.chatId }));
+
+    console.log(`Found ${results.length} messages matching "${queryText}"`);
+    return results;
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    throw error;
+  }
+};
+
+// Escape a string for use in a regular expression
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cut a snippet around the first match and split it into highlighted parts
+export const getSearchSnippet = (text: string, queryText: string): SnippetPart[] => {
+  const tokens = tokenizeSearchText(queryText);
+  if (tokens.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${tokens.map(escapeRegExp).join('|')})`, 'gi');
+  const firstMatch = text.search(pattern);
+
+  // Keep some context before the first match
+  let snippet = text;
+  if (firstMatch > SNIPPET_CONTEXT) {
+    snippet = `…${text.substring(firstMatch - SNIPPET_CONTEXT)}`;
+  }
+
+  return snippet
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: tokens.includes(part.toLowerCase()) }));
+};
+
+// Hook to search messages as the query changes (debounced)
+export const useMessageSearch = (
+  chats: Chat[],
+  queryText: string,
+  filters: SearchFilters = {},
+  debounceMs: number = 300
+) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const { chatId, senderId } = filters;
+
+  useEffect(() => {
+    if (tokenizeSearchText(queryText).length === 0) {
+      setResults([]);
+      setLoading(false);
+      return () => {};
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(() => {
+      searchMessages(chats, queryText, { chatId, senderId })
+        .then((found) => {
+          if (cancelled) return;
+          setResults(found);
+          setError(null);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setError(err as Error);
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [chats, queryText, chatId, senderId, debounceMs]);
+
+  return { results, loading, error };
+};
+
+// Collection of search services
+const searchServices = {
+  searchMessages,
+  getSearchSnippet,
+  useMessageSearch,
+};
+
+export default searchServices;
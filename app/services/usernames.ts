@@ -0,0 +1,185 @@
+import { doc, getDoc, onSnapshot, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { firestore } from '../firebase';
+import { getCurrentUser } from './user';
+import { userDocRef } from '../models/collections';
+import { readDoc } from '../models/schema';
+import { useAuthContext } from '../contexts/AuthContext';
+
+// 3-20 characters: a letter, then letters, digits or underscores.
+// Keep in sync with the usernames rules in firestore.rules.
+const USERNAME_PATTERN = /^[a-z][a-z0-9_]{2,19}$/;
+
+// Availability of a username as the user types it
+export type UsernameStatus = 'idle' | 'invalid' | 'checking' | 'available' | 'taken' | 'error';
+
+// Who a username belongs to
+export interface UsernameOwner {
+  uid: string;
+  username: string;
+}
+
+// Usernames are case-insensitive: reservations are keyed by the lowercased handle
+export const normalizeUsername = (username: string): string => {
+  return username.trim().replace(/^@/, '').toLowerCase();
+};
+
+// Check a username's format; returns a message describing the problem, or null if it's valid
+export const validateUsername = (username: string): string | null => {
+  const normalized = normalizeUsername(username);
+  if (normalized.length < 3) return 'Usernames must be at least 3 characters';
+  if (normalized.length > 20) return 'Usernames can be at most 20 characters';
+  if (!/^[a-z]/.test(normalized)) return 'Usernames must start with a letter';
+  if (!USERNAME_PATTERN.test(normalized)) return 'Use only letters, numbers and underscores';
+  return null;
+};
+
+// Look up who a username belongs to
+export const findUserByUsername = async (username: string): Promise<UsernameOwner | null> => {
+  const normalized = normalizeUsername(username);
+  if (validateUsername(normalized)) return null;
+
+  try {
+    const usernameDoc = await getDoc(doc(firestore, 'usernames', normalized));
+    if (!usernameDoc.exists()) return null;
+
+    const data = usernameDoc.data();
+    return { uid: data.uid, username: data.username || normalized };
+  } catch (error) {
+    console.error('Error looking up username:', error);
+    throw error;
+  }
+};
+
+// Check whether a username is free (or already belongs to the current user)
+export const isUsernameAvailable = async (username: string): Promise<boolean> => {
+  const owner = await findUserByUsername(username);
+  return !owner || owner.uid === getCurrentUser()?.uid;
+};
+
+// Claim a username for the current user and release their previous one, atomically
+export const claimUsername = async (username: string): Promise<void> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser) throw new Error('No user is signed in');
+
+  const formatError = validateUsername(username);
+  if (formatError) throw new Error(formatError);
+
+  const handle = username.trim().replace(/^@/, '');
+  const normalized = normalizeUsername(handle);
+
+  try {
+    console.log(`Claiming username: ${handle}`);
+    await runTransaction(firestore, async (transaction) => {
+      const usernameRef = doc(firestore, 'usernames', normalized);
+      const userRef = userDocRef(currentUser.uid);
+      const [usernameDoc, userDoc] = await Promise.all([
+        transaction.get(usernameRef),
+        transaction.get(userRef),
+      ]);
+
+      if (usernameDoc.exists() && usernameDoc.data().uid !== currentUser.uid) {
+        throw new Error('That username is already taken');
+      }
+
+      const previous = userDoc.data()?.username;
+      if (previous && normalizeUsername(previous) !== normalized) {
+        transaction.delete(doc(firestore, 'usernames', normalizeUsername(previous)));
+      }
+
+      transaction.set(usernameRef, {
+        uid: currentUser.uid,
+        username: handle,
+        createdAt: serverTimestamp(),
+      });
+      transaction.set(userRef, { username: handle }, { merge: true });
+    });
+    console.log('Username claimed successfully');
+  } catch (error) {
+    console.error('Error claiming username:', error);
+    throw error;
+  }
+};
+
+// Hook to check a username's format and availability as it is typed (debounced)
+export const useUsernameAvailability = (username: string, debounceMs: number = 400) => {
+  const [status, setStatus] = useState<UsernameStatus>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!username.trim()) {
+      setStatus('idle');
+      setMessage(null);
+      return () => {};
+    }
+
+    const formatError = validateUsername(username);
+    if (formatError) {
+      setStatus('invalid');
+      setMessage(formatError);
+      return () => {};
+    }
+
+    let cancelled = false;
+    setStatus('checking');
+    setMessage(null);
+
+    const timer = setTimeout(() => {
+      isUsernameAvailable(username)
+        .then((available) => {
+          if (cancelled) return;
+          setStatus(available ? 'available' : 'taken');
+          setMessage(available ? null : 'That username is already taken');
+        })
+        .catch(() => {
+          if (cancelled) return;
+          setStatus('error');
+          setMessage('Could not check availability');
+        });
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [username, debounceMs]);
+
+  return { status, message };
+};
+
+// Hook to get the current user's username
+export const useMyUsername = () => {
+  const [username, setUsername] = useState<string | null>(null);
+  const { user } = useAuthContext();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) {
+      setUsername(null);
+      return () => {};
+    }
+
+    const unsubscribe = onSnapshot(
+      userDocRef(userId),
+      (userDoc) => setUsername(readDoc(userDoc)?.username || null),
+      (error) => console.error('Error fetching username:', error)
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return username;
+};
+
+// Collection of username services
+const usernameServices = {
+  normalizeUsername,
+  validateUsername,
+  findUserByUsername,
+  isUsernameAvailable,
+  claimUsername,
+  useUsernameAvailability,
+  useMyUsername,
+};
+
+export default usernameServices;
@@ -3,8 +3,6 @@ import {
   updateProfile 
 } from 'firebase/auth';
 import { 
-  collection, 
-  doc, 
   setDoc, 
   query, 
   where, 
@@ -13,7 +11,9 @@ import {
   updateDoc, 
   serverTimestamp 
 } from 'firebase/firestore';
-import { auth, firestore } from '../firebase';
+import { auth } from '../firebase';
+import { chatDocRef, chatsCollection, messagesCollection, userDocRef } from '../models/collections';
+import { getSearchKeywords } from '../services/chat';
 
 /**
  * Utility function to create a test user with anonymous authentication
@@ -34,10 +34,10 @@ export const createTestUser = async (displayName?: string): Promise<{ uid: strin
     await updateProfile(user, { displayName: userName });
     
     // Create user document in Firestore
-    const userRef = doc(firestore, 'users', user.uid);
-    await setDoc(userRef, {
+    await setDoc(userDocRef(user.uid), {
       uid: user.uid,
       displayName: userName,
+      isAnonymous: true,
       createdAt: serverTimestamp(),
       lastActive: serverTimestamp(),
     });
@@ -79,8 +79,7 @@ export const createTestChat = async (
     };
     
     // Check if chat already exists
-    const chatsRef = collection(firestore, 'chats');
-    const q = query(chatsRef, where('participants', '==', participantIds));
+    const q = query(chatsCollection(), where('participants', '==', participantIds));
     const existingChatsQuery = await getDocs(q);
     
     if (!existingChatsQuery.empty) {
@@ -97,7 +96,7 @@ export const createTestChat = async (
       updatedAt: serverTimestamp(),
     };
     
-    const chatRef = await addDoc(collection(firestore, 'chats'), chatData);
+    const chatRef = await addDoc(chatsCollection(), chatData);
     
     console.log('Created test chat with ID:', chatRef.id);
     return chatRef.id;
@@ -127,14 +126,14 @@ export const sendTestMessage = async (
       senderId,
       senderName,
       text,
+      keywords: getSearchKeywords(text),
       createdAt: serverTimestamp(),
     };
     
-    await addDoc(collection(firestore, 'messages'), messageData);
+    await addDoc(messagesCollection(), messageData);
     
     // Update chat's last message and updatedAt
-    const chatRef = doc(firestore, 'chats', chatId);
-    await updateDoc(chatRef, {
+    await updateDoc(chatDocRef(chatId), {
       lastMessage: {
         text,
         createdAt: serverTimestamp(),
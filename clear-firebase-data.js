@@ -1,12 +1,11 @@
-const { initializeApp, cert } = require('firebase-admin/app');
+const { initializeApp } = require('firebase-admin/app');
 const { getAuth } = require('firebase-admin/auth');
 const { getFirestore } = require('firebase-admin/firestore');
+const { getAdminAppOptions, describeEnvironment, confirmDestructiveRun } = require('./scripts/firebase-environment');
 
-// Initialize Firebase Admin with service account
-const serviceAccount = require('./serviceAccountKey.json');
-const app = initializeApp({
-  credential: cert(serviceAccount)
-});
+// Initialize Firebase Admin for the environment selected with APP_ENV
+const app = initializeApp(getAdminAppOptions());
+console.log(`Using the ${describeEnvironment()} environment`);
 
 // Clear all users and Firestore data
 const clearFirebaseData = async () => {
@@ -118,4 +117,4 @@ async function deleteQueryBatch(db, query, batchSize) {
 }
 
 // Run the script
-clearFirebaseData().catch(console.error);
+confirmDestructiveRun('deletes every user and all Firestore data').then(clearFirebaseData).catch(console.error);
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useAccountRecovery } from '@/app/services/accountRecovery';
+
+// Offers to bring back the chats of a guest account this device was signed into
+// before, and shows the merge's progress until it completes
+export function AccountRecoveryBanner() {
+  const { orphan, merge, mergeAccount, dismiss } = useAccountRecovery();
+  const [hidden, setHidden] = useState(false);
+  const [starting, setStarting] = useState(false);
+
+  if (merge?.status === 'in_progress' || starting) {
+    return (
+      <View className="flex-row items-center p-3 bg-blue-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-800">
+        <ActivityIndicator size="small" color="#3B82F6" />
+        <Text className="flex-1 ml-3 text-gray-700 dark:text-gray-200">
+          Moving chats from {merge?.oldDisplayName || orphan?.displayName}
+          {merge?.mergedChatIds.length ? ` · ${merge.mergedChatIds.length} done` : '…'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (!orphan || hidden) {
+    return null;
+  }
+
+  // Merge after confirmation
+  const handleMerge = () => {
+    Alert.alert(
+      'Recover Chats',
+      `Chats from ${orphan.displayName} will move to this account. Contacts need to be added again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Recover',
+          onPress: () => {
+            setStarting(true);
+            mergeAccount()
+              .catch(() => Alert.alert('Error', 'Failed to recover your chats. Please try again.'))
+              .finally(() => setStarting(false));
+          },
+        },
+      ]
+    );
+  };
+
+  // Never offer this account again
+  const handleDismiss = () => {
+    Alert.alert(
+      'Keep Separate',
+      `You won't be able to recover the chats from ${orphan.displayName} later.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Keep Separate',
+          style: 'destructive',
+          onPress: () => {
+            dismiss().catch(() => Alert.alert('Error', 'Something went wrong. Please try again.'));
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View className="p-3 bg-blue-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-800">
+      <View className="flex-row items-start">
+        <Ionicons name="refresh-circle-outline" size={22} color="#3B82F6" />
+        <Text className="flex-1 ml-2 text-gray-700 dark:text-gray-200">
+          This phone was signed in as {orphan.displayName} before. Recover its chats?
+        </Text>
+        <TouchableOpacity onPress={() => setHidden(true)} hitSlop={8}>
+          <Ionicons name="close" size={18} color="#9CA3AF" />
+        </TouchableOpacity>
+      </View>
+      <View className="flex-row justify-end mt-2">
+        <TouchableOpacity className="px-3 py-2" onPress={handleDismiss}>
+          <Text className="text-gray-500 dark:text-gray-400">Keep Separate</Text>
+        </TouchableOpacity>
+        <TouchableOpacity className="bg-blue-500 px-4 py-2 rounded-lg" onPress={handleMerge}>
+          <Text className="text-white font-semibold">Recover</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,63 @@
+import { Modal, View, Text, TouchableOpacity, Pressable } from 'react-native';
+import { type ReactNode } from 'react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+export type ActionSheetAction = {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+type Props = {
+  visible: boolean;
+  title?: string;
+  // Extra content above the actions (e.g. a reaction picker)
+  header?: ReactNode;
+  actions: ActionSheetAction[];
+  onClose: () => void;
+};
+
+// Bottom sheet of actions; unlike Alert it fits any number of options on Android
+export function ActionSheet({ visible, title, header, actions, onClose }: Props) {
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable className="flex-1 justify-end bg-black/40" onPress={onClose}>
+        <Pressable
+          className="bg-white dark:bg-gray-900 rounded-t-2xl"
+          style={{ paddingBottom: Math.max(insets.bottom, 8) }}
+        >
+          {!!title && (
+            <View className="px-6 pt-4 pb-2 border-b border-gray-200 dark:border-gray-800">
+              <Text className="text-sm text-center text-gray-500 dark:text-gray-400" numberOfLines={1}>
+                {title}
+              </Text>
+            </View>
+          )}
+
+          {header}
+
+          {actions.map(action => (
+            <TouchableOpacity
+              key={action.label}
+              className="px-6 py-4 border-b border-gray-200 dark:border-gray-800"
+              onPress={() => {
+                onClose();
+                action.onPress();
+              }}
+            >
+              <Text className={`text-lg ${action.destructive ? 'text-red-500' : 'text-gray-800 dark:text-white'}`}>
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity className="px-6 py-4" onPress={onClose}>
+            <Text className="text-lg text-center text-blue-500 font-semibold">Cancel</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -0,0 +1,7 @@
+import { useChatNotifications } from '@/app/services/notifications';
+
+// Raises notifications for incoming messages while the app is running
+export function ChatNotifications() {
+  useChatNotifications();
+  return null;
+}
@@ -0,0 +1,29 @@
+import { View, Text } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useConnectivity } from '@/hooks/useConnectivity';
+
+export function ConnectivityBanner() {
+  const status = useConnectivity();
+  const insets = useSafeAreaInsets();
+
+  if (status === 'online') {
+    return null;
+  }
+
+  return (
+    <View
+      pointerEvents="none"
+      className={`absolute left-0 right-0 top-0 items-center pb-1 ${
+        status === 'offline' ? 'bg-gray-700' : 'bg-amber-500'
+      }`}
+      style={{ paddingTop: insets.top }}
+    >
+      <Text className="text-xs font-semibold text-white">
+        {status === 'offline'
+          ? 'Offline — showing saved messages'
+          : 'Reconnecting…'}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,36 @@
+import { View, Text, ActivityIndicator } from 'react-native';
+
+import { UsernameStatus } from '@/app/services/usernames';
+
+type Props = {
+  status: UsernameStatus;
+  message: string | null;
+  // The username already belongs to the current user
+  isCurrent?: boolean;
+};
+
+// One-line hint under a username field: checking, available, or what's wrong
+export function UsernameAvailability({ status, message, isCurrent }: Props) {
+  if (status === 'idle') {
+    return null;
+  }
+
+  if (status === 'checking') {
+    return (
+      <View className="flex-row items-center mt-1">
+        <ActivityIndicator size="small" color="#9CA3AF" />
+        <Text className="text-xs text-gray-500 ml-2">Checking availability…</Text>
+      </View>
+    );
+  }
+
+  if (status === 'available') {
+    return (
+      <Text className="text-xs text-green-600 mt-1">
+        {isCurrent ? 'This is your current username' : 'Username is available'}
+      </Text>
+    );
+  }
+
+  return <Text className="text-xs text-red-500 mt-1">{message}</Text>;
+}
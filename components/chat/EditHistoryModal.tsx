@@ -0,0 +1,87 @@
+import { Modal, View, Text, TouchableOpacity, FlatList, ActivityIndicator, SafeAreaView } from 'react-native';
+import { useEffect, useState } from 'react';
+
+import { getMessageHistory, MessageEdit } from '@/app/services/chat';
+
+type Props = {
+  // Message whose earlier versions are shown, or null when closed
+  messageId: string | null;
+  currentText: string;
+  onClose: () => void;
+};
+
+export function EditHistoryModal({ messageId, currentText, onClose }: Props) {
+  const [history, setHistory] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!messageId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getMessageHistory(messageId)
+      .then((edits) => {
+        if (!cancelled) setHistory(edits);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load edit history.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId]);
+
+  const formatDateTime = (date: Date) => {
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Modal visible={!!messageId} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView className="flex-1 bg-white dark:bg-gray-900">
+        <View className="p-4 border-b border-gray-200 dark:border-gray-800 flex-row items-center">
+          <Text className="flex-1 text-xl font-bold text-gray-800 dark:text-white">Edit History</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text className="text-blue-500">Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View className="p-4 border-b border-gray-200 dark:border-gray-800">
+          <Text className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">CURRENT</Text>
+          <Text className="text-gray-800 dark:text-white">{currentText}</Text>
+        </View>
+
+        {loading ? (
+          <View className="p-4 items-center">
+            <ActivityIndicator size="small" color="#0000ff" />
+          </View>
+        ) : error ? (
+          <Text className="p-4 text-center text-red-500">{error}</Text>
+        ) : (
+          <FlatList
+            data={history}
+            keyExtractor={(item) => item.id || `${item.editedAt.getTime()}`}
+            renderItem={({ item }) => (
+              <View className="p-4 border-b border-gray-200 dark:border-gray-800">
+                <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Replaced {formatDateTime(item.editedAt)}
+                </Text>
+                <Text className="text-gray-800 dark:text-white">{item.text}</Text>
+              </View>
+            )}
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
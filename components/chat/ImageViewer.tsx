@@ -0,0 +1,42 @@
+import { Modal, View, Image, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+type Props = {
+  uri: string | null;
+  onClose: () => void;
+};
+
+export function ImageViewer({ uri, onClose }: Props) {
+  const insets = useSafeAreaInsets();
+  const [loading, setLoading] = useState(true);
+
+  return (
+    <Modal visible={!!uri} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 bg-black items-center justify-center">
+        {uri && (
+          <Image
+            source={{ uri }}
+            className="w-full h-full"
+            resizeMode="contain"
+            onLoadStart={() => setLoading(true)}
+            onLoadEnd={() => setLoading(false)}
+          />
+        )}
+        {loading && (
+          <View className="absolute inset-0 items-center justify-center" pointerEvents="none">
+            <ActivityIndicator size="large" color="#FFFFFF" />
+          </View>
+        )}
+        <TouchableOpacity
+          className="absolute right-4 p-2 rounded-full bg-black/50"
+          style={{ top: insets.top + 8 }}
+          onPress={onClose}
+        >
+          <Ionicons name="close" size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,43 @@
+import { View, Text, TouchableOpacity } from 'react-native';
+
+import { ActionSheet, ActionSheetAction } from '@/components/ActionSheet';
+import { REACTION_EMOJIS } from '@/app/services/chat';
+
+export type MessageAction = ActionSheetAction;
+
+type Props = {
+  visible: boolean;
+  // Emoji the current user already reacted with; hidden when reactions aren't allowed
+  myReactions?: string[];
+  actions: MessageAction[];
+  onReact: (emoji: string) => void;
+  onClose: () => void;
+};
+
+export function MessageActionSheet({ visible, myReactions, actions, onReact, onClose }: Props) {
+  return (
+    <ActionSheet
+      visible={visible}
+      actions={actions}
+      onClose={onClose}
+      header={myReactions && (
+        <View className="flex-row justify-around px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+          {REACTION_EMOJIS.map(emoji => (
+            <TouchableOpacity
+              key={emoji}
+              className={`w-11 h-11 rounded-full items-center justify-center ${
+                myReactions.includes(emoji) ? 'bg-blue-100 dark:bg-blue-900' : ''
+              }`}
+              onPress={() => {
+                onClose();
+                onReact(emoji);
+              }}
+            >
+              <Text className="text-2xl">{emoji}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    />
+  );
+}
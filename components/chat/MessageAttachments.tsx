@@ -0,0 +1,82 @@
+import { View, Text, Image, TouchableOpacity, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Attachment, LocalAttachment, formatFileSize } from '@/app/services/attachments';
+
+// Largest side of an inline image preview
+const PREVIEW_SIZE = 220;
+
+type Props = {
+  attachments: (Attachment | LocalAttachment)[];
+  isCurrentUser: boolean;
+  // Upload progress (0-1) while the attachments are still being sent
+  progress?: number;
+  onOpenImage: (uri: string) => void;
+};
+
+// Uploaded attachments have a URL; queued ones only have a local file URI
+const getSourceUri = (attachment: Attachment | LocalAttachment, preferThumbnail = false) => {
+  if ('url' in attachment) {
+    return preferThumbnail && attachment.thumbnailUrl ? attachment.thumbnailUrl : attachment.url;
+  }
+  return attachment.uri;
+};
+
+// Scale an image to fit the preview box, keeping its aspect ratio
+const getPreviewSize = (attachment: Attachment | LocalAttachment) => {
+  if (!attachment.width || !attachment.height) {
+    return { width: PREVIEW_SIZE, height: PREVIEW_SIZE };
+  }
+  const scale = PREVIEW_SIZE / Math.max(attachment.width, attachment.height);
+  return { width: attachment.width * scale, height: attachment.height * scale };
+};
+
+export function MessageAttachments({ attachments, isCurrentUser, progress, onOpenImage }: Props) {
+  const uploading = progress !== undefined && progress < 1;
+
+  return (
+    <View className="mb-1">
+      {attachments.map((attachment, index) => {
+        const key = `${attachment.name}-${index}`;
+
+        if (attachment.kind === 'image') {
+          return (
+            <TouchableOpacity
+              key={key}
+              className="mb-1 rounded-lg overflow-hidden"
+              onPress={() => onOpenImage(getSourceUri(attachment))}
+              disabled={uploading}
+              activeOpacity={0.8}
+            >
+              <Image source={{ uri: getSourceUri(attachment, true) }} style={getPreviewSize(attachment)} />
+              {uploading && (
+                <View className="absolute inset-0 items-center justify-center bg-black/40">
+                  <Text className="text-white font-bold">{Math.round(progress * 100)}%</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        }
+
+        return (
+          <TouchableOpacity
+            key={key}
+            className="mb-1 flex-row items-center"
+            onPress={() => 'url' in attachment && Linking.openURL(attachment.url)}
+            disabled={!('url' in attachment)}
+          >
+            <Ionicons name="document-outline" size={24} color={isCurrentUser ? '#FFFFFF' : '#6B7280'} />
+            <View className="ml-2 flex-shrink">
+              <Text className={isCurrentUser ? 'text-white' : 'text-gray-800 dark:text-white'} numberOfLines={1}>
+                {attachment.name}
+              </Text>
+              <Text className={`text-xs ${isCurrentUser ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'}`}>
+                {uploading ? `Uploading ${Math.round(progress * 100)}%` : formatFileSize(attachment.size || 0)}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,53 @@
+import { Modal, View, Text, TouchableOpacity, Pressable, FlatList } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ReactionSummary } from '@/app/services/chat';
+
+type Props = {
+  // Reactions to list, or null when closed
+  reactions: ReactionSummary[] | null;
+  currentUserId: string;
+  participantNames: Record<string, string>;
+  onClose: () => void;
+};
+
+export function ReactionDetailsSheet({ reactions, currentUserId, participantNames, onClose }: Props) {
+  const insets = useSafeAreaInsets();
+
+  // One row per user and emoji
+  const rows = (reactions || []).flatMap(reaction =>
+    reaction.userIds.map(userId => ({ key: `${reaction.emoji}-${userId}`, emoji: reaction.emoji, userId }))
+  );
+
+  return (
+    <Modal visible={!!reactions} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable className="flex-1 justify-end bg-black/40" onPress={onClose}>
+        <Pressable
+          className="bg-white dark:bg-gray-900 rounded-t-2xl max-h-[60%]"
+          style={{ paddingBottom: Math.max(insets.bottom, 8) }}
+        >
+          <View className="p-4 border-b border-gray-200 dark:border-gray-800 flex-row items-center">
+            <Text className="flex-1 text-lg font-bold text-gray-800 dark:text-white">Reactions</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text className="text-blue-500">Done</Text>
+            </TouchableOpacity>
+          </View>
+          <FlatList
+            data={rows}
+            keyExtractor={(item) => item.key}
+            renderItem={({ item }) => (
+              <View className="px-4 py-3 flex-row items-center border-b border-gray-200 dark:border-gray-800">
+                <Text className="text-2xl mr-4">{item.emoji}</Text>
+                <Text className="text-lg text-gray-800 dark:text-white">
+                  {item.userId === currentUserId
+                    ? 'You'
+                    : participantNames[item.userId] || `User-${item.userId.substring(0, 5)}`}
+                </Text>
+              </View>
+            )}
+          />
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
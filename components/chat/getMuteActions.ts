@@ -0,0 +1,16 @@
+import { Alert } from 'react-native';
+
+import { ActionSheetAction } from '@/components/ActionSheet';
+import { MUTE_DURATIONS, setChatMuted } from '@/app/services/chatSettings';
+
+// One action per mute duration, for an ActionSheet
+export function getMuteActions(chatId: string): ActionSheetAction[] {
+  return MUTE_DURATIONS.map(option => ({
+    label: option.durationMs ? `For ${option.label}` : option.label,
+    onPress: () => {
+      setChatMuted(chatId, true, option.durationMs).catch(() => {
+        Alert.alert('Error', 'Failed to update notification settings.');
+      });
+    },
+  }));
+}
@@ -0,0 +1,21 @@
+import { Alert } from 'react-native';
+
+import { blockUser } from '@/app/services/moderation';
+
+// Ask before blocking a user, then block them
+export function confirmBlockUser(userId: string, displayName: string) {
+  Alert.alert(
+    `Block ${displayName}?`,
+    'They will no longer be able to message you or start a chat with you.',
+    [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Block',
+        style: 'destructive',
+        onPress: () => {
+          blockUser(userId).catch(() => Alert.alert('Error', 'Failed to block user.'));
+        },
+      },
+    ]
+  );
+}
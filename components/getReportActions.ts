@@ -0,0 +1,16 @@
+import { Alert } from 'react-native';
+
+import { ActionSheetAction } from '@/components/ActionSheet';
+import { REPORT_REASONS, ReportTarget, submitReport } from '@/app/services/moderation';
+
+// One action per report reason, for an ActionSheet
+export function getReportActions(target: ReportTarget): ActionSheetAction[] {
+  return REPORT_REASONS.map(reason => ({
+    label: reason,
+    onPress: () => {
+      submitReport(target, reason)
+        .then(() => Alert.alert('Report Sent', 'Thanks for letting us know. We will review this report.'))
+        .catch(() => Alert.alert('Error', 'Failed to send report. Please try again.'));
+    },
+  }));
+}
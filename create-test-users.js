@@ -1,11 +1,10 @@
-const { initializeApp, cert } = require('firebase-admin/app');
+const { initializeApp } = require('firebase-admin/app');
 const { getAuth } = require('firebase-admin/auth');
+const { getAdminAppOptions, describeEnvironment } = require('./scripts/firebase-environment');
 
-// Initialize Firebase Admin with service account
-const serviceAccount = require('./serviceAccountKey.json');
-initializeApp({
-  credential: cert(serviceAccount)
-});
+// Initialize Firebase Admin for the environment selected with APP_ENV
+initializeApp(getAdminAppOptions());
+console.log(`Using the ${describeEnvironment()} environment`);
 
 // Create test users
 const createTestUsers = async () => {
@@ -7,29 +7,23 @@
  * To use this script:
  * 1. Download your Firebase service account key from:
  *    Firebase Console > Project Settings > Service Accounts > Generate New Private Key
- * 2. Save the JSON file as 'serviceAccountKey.json' in this directory
- * 3. Run: node delete-firebase-auth-users.js
+ * 2. Save the JSON file where the environment's profile in app.json expects it
+ *    (serviceAccountKey.json in this directory by default)
+ * 3. Run: APP_ENV=prod node delete-firebase-auth-users.js
+ *    (APP_ENV must be set, e.g. APP_ENV=emulator for the local emulators; for a
+ *    real project you'll be asked to type its ID)
  */
 
 const admin = require('firebase-admin');
+const { getAdminAppOptions, describeEnvironment, confirmDestructiveRun } = require('./scripts/firebase-environment');
 
-// You'll need to download the service account key from Firebase Console
-// Project Settings > Service Accounts > Generate New Private Key
 try {
-  // Initialize Firebase Admin with service account
-  const serviceAccount = require('./serviceAccountKey.json');
+  // Initialize Firebase Admin for the environment selected with APP_ENV
+  admin.initializeApp(getAdminAppOptions());
   
-  admin.initializeApp({
-    credential: admin.credential.cert(serviceAccount)
-  });
-  
-  console.log('Firebase Admin SDK initialized successfully');
+  console.log(`Firebase Admin SDK initialized for the ${describeEnvironment()} environment`);
 } catch (error) {
   console.error('Error initializing Firebase Admin SDK:', error.message);
-  console.log('\nMake sure you have downloaded the service account key from Firebase Console:');
-  console.log('1. Go to Firebase Console > Project Settings > Service Accounts');
-  console.log('2. Click "Generate New Private Key"');
-  console.log('3. Save the JSON file as "serviceAccountKey.json" in this directory');
   process.exit(1);
 }
 
@@ -66,7 +60,8 @@ async function deleteAllUsers() {
 }
 
 // Run the cleanup
-deleteAllUsers()
+confirmDestructiveRun('deletes every user')
+  .then(deleteAllUsers)
   .then((count) => {
     console.log(`Cleanup complete. Deleted ${count} users in total.`);
     process.exit(0);
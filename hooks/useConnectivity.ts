@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { waitForPendingWrites } from 'firebase/firestore';
+
+import { firestore } from '@/app/firebase';
+
+export type ConnectivityStatus = 'online' | 'offline' | 'reconnecting';
+
+export function useConnectivity(): ConnectivityStatus {
+  const [status, setStatus] = useState<ConnectivityStatus>('online');
+  const wasOffline = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      // isInternetReachable is null while unknown, so only an explicit false counts as offline
+      const isOnline = !!state.isConnected && state.isInternetReachable !== false;
+
+      if (!isOnline) {
+        wasOffline.current = true;
+        setStatus('offline');
+        return;
+      }
+
+      if (!wasOffline.current) {
+        setStatus('online');
+        return;
+      }
+
+      // Back online: stay "reconnecting" until writes queued while offline are acknowledged
+      wasOffline.current = false;
+      setStatus('reconnecting');
+      waitForPendingWrites(firestore)
+        .catch((error) => console.error('Error waiting for pending writes:', error))
+        .finally(() => {
+          if (!cancelled && !wasOffline.current) {
+            setStatus('online');
+          }
+        });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return status;
+}
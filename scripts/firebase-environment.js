@@ -0,0 +1,118 @@
+/**
+ * VeryFomo Firebase environment profiles
+ *
+ * The Firebase projects the app and the node scripts can talk to are listed in
+ * app.json under expo.extra.environments, one profile per environment. APP_ENV picks
+ * one (prod when unset), both for `npx expo start` (through app.config.js) and
+ * for scripts:
+ *
+ *   APP_ENV=emulator node scripts/manage-users.js
+ *
+ * There is only one real project (prod) for now; add dev and staging profiles once
+ * they have projects of their own. Scripts that delete data call
+ * confirmDestructiveRun, which needs APP_ENV set explicitly and, outside the
+ * emulator, the project ID typed back.
+ *
+ * The emulator profile talks to the local emulator suite. Set EMULATOR_HOST to
+ * reach it from elsewhere, e.g. 10.0.2.2 from an Android emulator.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+const appJson = require('../app.json');
+
+const ENVIRONMENT_NAMES = ['prod', 'emulator'];
+const DEFAULT_ENVIRONMENT = 'prod';
+const PROJECT_ROOT = path.dirname(require.resolve('../app.json'));
+
+// Get the profile selected by APP_ENV
+function getEnvironment(env = process.env) {
+  const name = env.APP_ENV || DEFAULT_ENVIRONMENT;
+  if (!ENVIRONMENT_NAMES.includes(name)) {
+    throw new Error(`Unknown APP_ENV "${name}", expected one of: ${ENVIRONMENT_NAMES.join(', ')}`);
+  }
+
+  const profile = appJson.expo.extra.environments[name];
+  if (!profile || !profile.firebase) {
+    throw new Error(`app.json has no Firebase config for the ${name} environment`);
+  }
+
+  return {
+    name,
+    firebase: profile.firebase,
+    emulators: profile.emulators
+      ? { ...profile.emulators, host: env.EMULATOR_HOST || profile.emulators.host }
+      : null,
+    // Service account key for admin scripts, relative to the project root
+    serviceAccount: profile.serviceAccount || null,
+  };
+}
+
+// Options for firebase-admin's initializeApp. The emulator profile needs no
+// credentials; the others use the profile's service account key.
+function getAdminAppOptions(environment = getEnvironment()) {
+  if (environment.emulators) {
+    const { host, authPort, firestorePort, storagePort } = environment.emulators;
+    // firebase-admin finds the emulators through these variables
+    process.env.FIREBASE_AUTH_EMULATOR_HOST = `${host}:${authPort}`;
+    process.env.FIRESTORE_EMULATOR_HOST = `${host}:${firestorePort}`;
+    process.env.FIREBASE_STORAGE_EMULATOR_HOST = `${host}:${storagePort}`;
+    return { projectId: environment.firebase.projectId };
+  }
+
+  const keyPath = environment.serviceAccount && path.resolve(PROJECT_ROOT, environment.serviceAccount);
+  if (!keyPath || !fs.existsSync(keyPath)) {
+    throw new Error(
+      `No service account key for the ${environment.name} environment` +
+      (keyPath ? ` (expected ${path.relative(PROJECT_ROOT, keyPath)})` : '') +
+      '.\nDownload one from Firebase Console > Project Settings > Service Accounts > Generate New Private Key.'
+    );
+  }
+
+  const { cert } = require('firebase-admin/app');
+  return {
+    credential: cert(require(keyPath)),
+    projectId: environment.firebase.projectId,
+  };
+}
+
+// Describe the selected environment, so scripts say which project they are about to change
+function describeEnvironment(environment = getEnvironment()) {
+  return environment.emulators
+    ? `${environment.name} (${environment.firebase.projectId} on ${environment.emulators.host})`
+    : `${environment.name} (${environment.firebase.projectId})`;
+}
+
+// Ask before a script deletes data: APP_ENV must be set (so a forgotten variable
+// never falls back to prod), and a real project's ID must be typed back.
+// `action` completes "This script ...", e.g. 'deletes every user'.
+async function confirmDestructiveRun(action, env = process.env) {
+  if (!env.APP_ENV) {
+    throw new Error(`This script ${action}. Set APP_ENV to choose the project, e.g. APP_ENV=emulator`);
+  }
+
+  const environment = getEnvironment(env);
+  if (environment.emulators) return environment;
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise(resolve => rl.question(
+    `This script ${action} in the ${describeEnvironment(environment)} environment.\n` +
+    `Type the project ID (${environment.firebase.projectId}) to continue: `,
+    resolve
+  ));
+  rl.close();
+
+  if (answer.trim() !== environment.firebase.projectId) {
+    throw new Error('Cancelled: the project ID did not match');
+  }
+  return environment;
+}
+
+module.exports = {
+  ENVIRONMENT_NAMES,
+  getEnvironment,
+  getAdminAppOptions,
+  describeEnvironment,
+  confirmDestructiveRun,
+};
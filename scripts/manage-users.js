@@ -1,10 +1,9 @@
 const admin = require('firebase-admin');
-const serviceAccount = require('../serviceAccountKey.json');
+const { getAdminAppOptions, describeEnvironment, confirmDestructiveRun } = require('./firebase-environment');
 
-// Initialize Firebase Admin SDK
-admin.initializeApp({
-  credential: admin.credential.cert(serviceAccount)
-});
+// Initialize Firebase Admin SDK for the environment selected with APP_ENV
+admin.initializeApp(getAdminAppOptions());
+console.log(`Using the ${describeEnvironment()} environment`);
 
 const auth = admin.auth();
 const firestore = admin.firestore();
@@ -143,6 +142,8 @@ async function clearFirestoreData() {
 // Main function to run the script
 async function main() {
   try {
+    await confirmDestructiveRun('deletes every user and all Firestore data, then creates test users');
+
     // Clear Firestore data
     await clearFirestoreData();
 
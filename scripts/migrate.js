@@ -0,0 +1,326 @@
+/**
+ * VeryFomo data migrations
+ *
+ * Upgrades stored documents to the schema versions the app writes (see app/models).
+ * Each file in scripts/migrations moves one collection up one version:
+ *
+ *   module.exports = {
+ *     collection: 'users',
+ *     version: 2,
+ *     description: 'What changes',
+ *     // Top-level field updates for one document; FieldValue.delete() removes a field
+ *     migrate: (data, { FieldValue }) => ({ ... }),
+ *   };
+ *
+ * When a collection's version is bumped in app/models/schemaVersions.json, add
+ * its read-time migration to the model and the matching file here. The app reads older documents as they are
+ * migrated, so this can run while the app is live. Every run is recorded in the
+ * schemaMigrations collection and resumes from its checkpoint if interrupted.
+ *
+ *   node scripts/migrate.js                  list migrations and whether they are applied
+ *   node scripts/migrate.js run --dry-run    show what would change without writing
+ *   node scripts/migrate.js run [--batch-size 200] [--only 001-users-v1]
+ *
+ * APP_ENV picks the project (see firebase-environment.js), e.g. APP_ENV=emulator
+ * migrates the local emulator.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const admin = require('firebase-admin');
+const { FieldPath, FieldValue } = require('firebase-admin/firestore');
+const { getAdminAppOptions, describeEnvironment } = require('./firebase-environment');
+
+const SCRIPTS_DIR = path.dirname(require.resolve('./firebase-environment'));
+const MIGRATIONS_DIR = path.join(SCRIPTS_DIR, 'migrations');
+
+// Schema versions the app writes, per collection (shared with app/models)
+const APP_SCHEMA_VERSIONS = require('../app/models/schemaVersions.json');
+
+// One document per migration records its progress and when it was applied
+const METADATA_COLLECTION = 'schemaMigrations';
+
+// Documents read and written per transaction
+const DEFAULT_BATCH_SIZE = 200;
+const MAX_BATCH_SIZE = 500;
+
+// Documents whose changes a dry run prints, per migration
+const DRY_RUN_SAMPLES = 5;
+
+// Read the command line: a command (status or run) and its options
+function parseArgs(args) {
+  const [command = 'status', ...rest] = args;
+  const options = { command, dryRun: false, batchSize: DEFAULT_BATCH_SIZE, only: null };
+
+  if (!['status', 'run'].includes(command)) {
+    throw new Error(`Unknown command "${command}", expected status or run`);
+  }
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--batch-size':
+        options.batchSize = Number(rest[++i]);
+        break;
+      case '--only':
+        options.only = rest[++i];
+        break;
+      default:
+        throw new Error(`Unknown option "${rest[i]}"`);
+    }
+  }
+
+  if (!Number.isInteger(options.batchSize) || options.batchSize < 1 || options.batchSize > MAX_BATCH_SIZE) {
+    throw new Error(`--batch-size must be a number from 1 to ${MAX_BATCH_SIZE}`);
+  }
+  return options;
+}
+
+// Load the migrations in file name order, checking each collection's versions follow on
+function loadMigrations(directory = MIGRATIONS_DIR) {
+  const latestVersions = {};
+
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.js'))
+    .sort()
+    .map(file => {
+      const migration = { id: path.basename(file, '.js'), ...require(path.join(directory, file)) };
+      const expected = (latestVersions[migration.collection] || 0) + 1;
+      if (migration.version !== expected) {
+        throw new Error(
+          `${migration.id} migrates ${migration.collection} to version ${migration.version}, expected ${expected}`
+        );
+      }
+      latestVersions[migration.collection] = migration.version;
+      return migration;
+    });
+}
+
+// Get the schema version a document was written with (as getSchemaVersion in app/models/schema.ts)
+function getSchemaVersion(data) {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+}
+
+// Check whether an update removes its field
+function isDelete(value) {
+  return value instanceof FieldValue && value.isEqual(FieldValue.delete());
+}
+
+// Field updates that bring a document up to the migration's version. A document
+// can be several versions behind (an old app may still write it), so every
+// migration it missed runs in turn.
+function getUpdates(migrations, migration, data) {
+  const updates = {};
+  let current = { ...data };
+
+  migrations
+    .filter(step =>
+      step.collection === migration.collection &&
+      step.version > getSchemaVersion(data) &&
+      step.version <= migration.version)
+    .forEach(step => {
+      const changes = step.migrate(current, { FieldValue });
+      current = { ...current };
+      Object.entries(changes).forEach(([field, value]) => {
+        updates[field] = value;
+        if (isDelete(value)) {
+          delete current[field];
+        } else {
+          current[field] = value;
+        }
+      });
+    });
+
+  updates.schemaVersion = migration.version;
+  return updates;
+}
+
+// Describe a document's updates for a dry run
+function describeUpdates(updates) {
+  return Object.entries(updates)
+    .map(([field, value]) => `${field} ${isDelete(value) ? 'deleted' : `= ${JSON.stringify(value)}`}`)
+    .join(', ');
+}
+
+// Get the recorded runs, keyed by migration ID
+async function getMetadata(firestore) {
+  const snapshot = await firestore.collection(METADATA_COLLECTION).get();
+  const metadata = {};
+  snapshot.forEach(doc => {
+    metadata[doc.id] = doc.data();
+  });
+  return metadata;
+}
+
+// List every migration with whether it has been applied
+async function showStatus(firestore, migrations) {
+  const metadata = await getMetadata(firestore);
+
+  migrations.forEach(migration => {
+    const record = metadata[migration.id];
+    let state = 'pending';
+    if (record && record.status === 'applied') {
+      state = `applied ${record.appliedAt.toDate().toISOString()} (${record.migrated} of ${record.scanned} documents)`;
+    } else if (record) {
+      state = `started, ${record.migrated} documents migrated so far (resumes after ${record.checkpoint || 'the start'})`;
+    }
+    console.log(`${migration.id}: ${migration.collection} v${migration.version}, ${state}`);
+    console.log(`  ${migration.description}`);
+  });
+
+  // A version the app writes without a migration here leaves stored documents behind
+  Object.entries(APP_SCHEMA_VERSIONS).forEach(([collection, version]) => {
+    const latest = Math.max(0, ...migrations.filter(m => m.collection === collection).map(m => m.version));
+    if (latest !== version) {
+      console.warn(`Warning: app/models writes ${collection} version ${version}, but migrations reach version ${latest}`);
+    }
+  });
+}
+
+// Get a page of a collection in document ID order, after the given document ID
+function getPage(firestore, collection, after, batchSize) {
+  const page = firestore.collection(collection).orderBy(FieldPath.documentId()).limit(batchSize);
+  return after ? page.startAfter(after) : page;
+}
+
+// Show what a migration would change without writing anything
+async function dryRunMigration(firestore, migrations, migration, batchSize) {
+  let after = null;
+  let scanned = 0;
+  let pending = 0;
+
+  for (;;) {
+    const snapshot = await getPage(firestore, migration.collection, after, batchSize).get();
+    snapshot.docs.forEach(doc => {
+      scanned++;
+      if (getSchemaVersion(doc.data()) >= migration.version) return;
+
+      pending++;
+      if (pending <= DRY_RUN_SAMPLES) {
+        console.log(`  ${migration.collection}/${doc.id}: ${describeUpdates(getUpdates(migrations, migration, doc.data()))}`);
+      }
+    });
+
+    if (snapshot.size < batchSize) break;
+    after = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`${migration.id}: would migrate ${pending} of ${scanned} documents`);
+}
+
+// Run a migration in batches. Each batch is a transaction that also saves the
+// checkpoint, so an interrupted run picks up after the last committed batch.
+async function runMigration(firestore, migrations, migration, batchSize) {
+  const metadataRef = firestore.collection(METADATA_COLLECTION).doc(migration.id);
+  const record = (await metadataRef.get()).data();
+
+  if (record) {
+    console.log(`${migration.id}: resuming after ${record.checkpoint || 'the start'}`);
+  } else {
+    console.log(`${migration.id}: ${migration.description}`);
+    await metadataRef.set({
+      collection: migration.collection,
+      version: migration.version,
+      description: migration.description,
+      status: 'running',
+      checkpoint: null,
+      scanned: 0,
+      migrated: 0,
+      startedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  let after = record ? record.checkpoint : null;
+  for (;;) {
+    const batch = await firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(getPage(firestore, migration.collection, after, batchSize));
+
+      let migrated = 0;
+      snapshot.docs.forEach(doc => {
+        if (getSchemaVersion(doc.data()) >= migration.version) return;
+        transaction.update(doc.ref, getUpdates(migrations, migration, doc.data()));
+        migrated++;
+      });
+
+      const last = snapshot.docs[snapshot.docs.length - 1];
+      transaction.update(metadataRef, {
+        checkpoint: last ? last.id : after,
+        scanned: FieldValue.increment(snapshot.size),
+        migrated: FieldValue.increment(migrated),
+      });
+      return { size: snapshot.size, checkpoint: last ? last.id : after, migrated };
+    });
+
+    console.log(`${migration.id}: migrated ${batch.migrated} of ${batch.size} documents up to ${batch.checkpoint}`);
+    if (batch.size < batchSize) break;
+    after = batch.checkpoint;
+  }
+
+  await metadataRef.update({ status: 'applied', appliedAt: FieldValue.serverTimestamp() });
+  console.log(`${migration.id}: applied`);
+}
+
+// Run (or dry-run) every migration that hasn't been applied, in order
+async function runPending(firestore, migrations, options) {
+  if (options.only && !migrations.some(migration => migration.id === options.only)) {
+    throw new Error(`No migration named ${options.only}`);
+  }
+
+  const metadata = await getMetadata(firestore);
+  const pending = migrations.filter(migration =>
+    (!options.only || migration.id === options.only) &&
+    !(metadata[migration.id] && metadata[migration.id].status === 'applied'));
+
+  if (pending.length === 0) {
+    console.log('All migrations have been applied.');
+    return;
+  }
+
+  for (const migration of pending) {
+    if (options.dryRun) {
+      await dryRunMigration(firestore, migrations, migration, options.batchSize);
+    } else {
+      await runMigration(firestore, migrations, migration, options.batchSize);
+    }
+  }
+}
+
+// Main function to run the script
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const migrations = loadMigrations();
+
+  // Initialize Firebase Admin SDK for the environment selected with APP_ENV
+  admin.initializeApp(getAdminAppOptions());
+  console.log(`Using the ${describeEnvironment()} environment${options.dryRun ? ' (dry run)' : ''}`);
+
+  try {
+    if (options.command === 'run') {
+      await runPending(admin.firestore(), migrations, options);
+    } else {
+      await showStatus(admin.firestore(), migrations);
+    }
+  } finally {
+    // Terminate the Firebase Admin app
+    await admin.app().delete();
+  }
+}
+
+// Run the script when called from the command line (tests require it instead)
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Migration failed:', error.message || error);
+    process.exitCode = 1;
+  });
+}
+
+module.exports = {
+  parseArgs,
+  loadMigrations,
+  getUpdates,
+  dryRunMigration,
+  runMigration,
+  runPending,
+};
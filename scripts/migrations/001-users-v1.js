@@ -0,0 +1,14 @@
+/**
+ * users v1: every profile stores isAnonymous, and the devices list written by
+ * sign-in before the per-device registry (users/{uid}/devices) is dropped.
+ * Matches the version 1 migration in app/models/user.ts.
+ */
+module.exports = {
+  collection: 'users',
+  version: 1,
+  description: 'Store isAnonymous on every profile and drop the old devices list',
+  migrate: (data, { FieldValue }) => ({
+    ...(typeof data.isAnonymous !== 'boolean' && { isAnonymous: !data.email }),
+    ...(data.devices !== undefined && { devices: FieldValue.delete() }),
+  }),
+};
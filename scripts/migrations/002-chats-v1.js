@@ -0,0 +1,10 @@
+/**
+ * chats v1: chats written before versioning already have the version 1 fields,
+ * so they are only stamped. Matches app/models/chat.ts.
+ */
+module.exports = {
+  collection: 'chats',
+  version: 1,
+  description: 'Stamp chats written before versioning',
+  migrate: () => ({}),
+};
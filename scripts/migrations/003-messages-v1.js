@@ -0,0 +1,10 @@
+/**
+ * messages v1: messages written before versioning already have the version 1
+ * fields, so they are only stamped. Matches app/models/message.ts.
+ */
+module.exports = {
+  collection: 'messages',
+  version: 1,
+  description: 'Stamp messages written before versioning',
+  migrate: () => ({}),
+};